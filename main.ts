@@ -1,44 +1,155 @@
-import {App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting} from 'obsidian';
-import {LskyClient} from './src/api/lsky';
+import {App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile} from 'obsidian';
+import {LskyAlbum, LskyAuthError, LskyClient, LskyStrategy, LskyUploadTarget} from './src/api/lsky';
+import {createProfile, getAllImageHosts, getProfile, ImagePermission, LskyProfile, openProfiles, ProfileRuleType, ProfileSettings, resolveUploadTarget, sealProfiles, toUploadTarget, UploadTargetSettings} from './src/api/profiles';
+import {chooseProfiles} from './src/ui/profile-picker';
 import {CustomUploader} from './src/features/upload';
-import {cleanupUnusedImages} from './src/features/cleanup';
+import {cleanupUnusedImages, CleanupMode} from './src/features/cleanup';
+import {chooseQuarantineEntry, QuarantineEntry, QuarantineList} from './src/features/quarantine';
 import {showUsedImages} from './src/features/view';
+import {handleEditorImageEvent, PasteUploadMode} from './src/features/paste';
+import {CompressFormat} from './src/features/compress';
+import {exportLedger, rebuildLedger, showLedger, UploadLedger, UploadRecord} from './src/features/ledger';
+import {BulkUploadCheckpoint, bulkUploadLocalImages} from './src/features/bulk-upload';
+import {chooseFolder} from './src/ui/folder-picker';
+import {LinkStyle} from './src/utils/links';
+import {chooseJournalEntry, JournalEntry, revertEntry, RunJournal} from './src/features/journal';
+import {drainPendingUploads, PendingUpload, PendingUploadQueue, showPendingUploads} from './src/features/offline-queue';
+import type {DownloadScope} from './src/features/download';
+import type {MigrationCheckpoint} from './src/features/migrate';
+import {LOCAL_FILE_ACTION_TEXT, LocalFileAction} from './src/features/local-files';
+import {GALLERY_VIEW_TYPE, LskyGalleryView} from './src/features/gallery';
+import {ImageUsageIndex, writeUsageReport} from './src/features/usage-index';
+import {SecretBox} from './src/utils/secret';
+import {AttachmentWatcher} from './src/features/auto-upload';
 
-interface LskySettings {
-    serverUrl: string;
-    email: string;
-    password: string;
-    token: string;
+interface LskySettings extends ProfileSettings {
     autoCleanupOnStartup: boolean;
+    pasteUploadMode: PasteUploadMode;
+    dedupeUploads: boolean;
+    dedupeCheckServer: boolean;
+    compressImages: boolean;
+    compressFormat: CompressFormat;
+    compressQuality: number;
+    compressMaxWidth: number;
+    compressMaxHeight: number;
+    cleanupMode: CleanupMode;
+    quarantineDays: number;
+    quarantineBackupFolder: string;
+    bulkUploadInclude: string[];
+    bulkUploadExclude: string[];
+    transferConcurrency: number;
+    transferMaxRetries: number;
+    offlineRetryMinutes: number;
+    downloadPathTemplate: string;
+    downloadScope: DownloadScope;
+    downloadAllowDomains: string[];
+    downloadDenyDomains: string[];
+    linkStyle: LinkStyle;
+    previewBeforeRun: boolean;
+    localFileAction: LocalFileAction;
+    localArchiveFolder: string;
+    autoUploadNewImages: boolean;
+    autoUploadFolders: string[];
+    autoUploadExclude: string[];
+    autoUploadDelaySeconds: number;
 }
 
 const DEFAULT_SETTINGS: LskySettings = {
-    serverUrl: 'https://lsky.example.com/api/v1',
-    email: '',
-    password: '',
-    token: '',
-    autoCleanupOnStartup: false
+    profiles: [],
+    defaultProfileId: '',
+    profileRules: [],
+    autoCleanupOnStartup: false,
+    pasteUploadMode: 'upload',
+    dedupeUploads: true,
+    dedupeCheckServer: false,
+    compressImages: false,
+    compressFormat: 'webp',
+    compressQuality: 80,
+    compressMaxWidth: 0,
+    compressMaxHeight: 0,
+    cleanupMode: 'quarantine',
+    quarantineDays: 7,
+    quarantineBackupFolder: 'lsky-backup',
+    bulkUploadInclude: [],
+    bulkUploadExclude: [],
+    transferConcurrency: 3,
+    transferMaxRetries: 3,
+    offlineRetryMinutes: 5,
+    downloadPathTemplate: '{{vault_attachment_folder}}',
+    downloadScope: 'lsky',
+    downloadAllowDomains: [],
+    downloadDenyDomains: [],
+    linkStyle: 'keep',
+    previewBeforeRun: false,
+    localFileAction: 'keep',
+    localArchiveFolder: 'lsky-archive',
+    autoUploadNewImages: false,
+    autoUploadFolders: [],
+    autoUploadExclude: [],
+    autoUploadDelaySeconds: 5
+}
+
+// 插件运行数据，与设置一起保存在 data.json 的 state 字段中
+interface LskyState {
+    ledger: UploadRecord[];
+    quarantine: QuarantineEntry[];
+    bulkUpload?: BulkUploadCheckpoint;
+    migration?: MigrationCheckpoint;
+    pendingUploads: PendingUpload[];
+    journal: JournalEntry[];
+}
+
+const DEFAULT_STATE: LskyState = {
+    ledger: [],
+    quarantine: [],
+    pendingUploads: [],
+    journal: []
 }
 
 export default class LskyPlugin extends Plugin {
     settings: LskySettings;
-    private client?: LskyClient;
+    state: LskyState;
+    ledger: UploadLedger;
+    quarantine: QuarantineList;
+    pendingUploads: PendingUploadQueue;
+    journal: RunJournal;
+    usageIndex: ImageUsageIndex;
+    attachmentWatcher: AttachmentWatcher;
+    private clients = new Map<string, LskyClient>();
+    private secrets: SecretBox;
+    private retrying = false;
+    private retryTimer: number | null = null;
 
     async onload() {
         await this.loadSettings();
+        this.ledger = new UploadLedger(this.state.ledger, () => this.saveState());
+        this.quarantine = new QuarantineList(this.state.quarantine, () => this.saveState());
+        this.pendingUploads = new PendingUploadQueue(this.state.pendingUploads, () => this.saveState());
+        this.journal = new RunJournal(this.state.journal, () => this.saveState());
+        this.usageIndex = new ImageUsageIndex(this.app);
+        this.registerEvent(this.app.vault.on('create', (file) => { this.usageIndex.update(file); }));
+        this.registerEvent(this.app.vault.on('modify', (file) => { this.usageIndex.update(file); }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.usageIndex.rename(file, oldPath)));
+        this.registerEvent(this.app.vault.on('delete', (file) => this.usageIndex.remove(file.path)));
 
         this.addSettingTab(new LskySettingTab(this.app, this));
 
-        this.refreshClient();
+        this.registerView(GALLERY_VIEW_TYPE, (leaf) => new LskyGalleryView(leaf, {
+            profiles: () => this.settings.profiles,
+            defaultProfileId: () => this.settings.defaultProfileId,
+            getClient: (profile) => this.ensureClient(profile),
+            options: () => this.settings,
+            index: this.usageIndex,
+            ledger: this.ledger
+        }));
 
         // Always show left ribbon buttons per updated requirement
         const ribbonsEnabled = true;
 
         // Ribbon: upload all local images in current note
         const uploadRibbon = this.addRibbonIcon('image-plus', '上传本地图片到图床', async () => {
-            await this.ensureClient();
-            if (!this.client) return;
-            const uploader = new CustomUploader(this.app, this.client);
+            const uploader = await this.createUploaderForNote(this.app.workspace.getActiveFile());
+            if (!uploader) return;
             await uploader.uploadAllLocalImages();
         });
         uploadRibbon.addClass('lsky-upload-ribbon');
@@ -46,32 +157,35 @@ export default class LskyPlugin extends Plugin {
 
         // Ribbon: view used images
         const viewRibbon = this.addRibbonIcon('list', '查看已使用的图床图片', async () => {
-            await showUsedImages(this.app, this.settings.serverUrl);
+            await showUsedImages(this.app, this.usageIndex, getAllImageHosts(this.settings.profiles));
         });
         viewRibbon.addClass('lsky-view-ribbon');
         if (!ribbonsEnabled) viewRibbon.hide();
 
         // Ribbon: cleanup
         const cleanupRibbon = this.addRibbonIcon('trash', '清理未被引用的图床图片', async () => {
-            await this.ensureClient();
-            if (!this.client) return;
-            await cleanupUnusedImages(this.app, this.client, this.settings.serverUrl);
+            const profiles = await chooseProfiles(this.app, this.settings.profiles);
+            if (profiles) await this.runCleanup(profiles);
         });
         cleanupRibbon.addClass('lsky-cleanup-ribbon');
         if (!ribbonsEnabled) cleanupRibbon.hide();
 
+        const galleryRibbon = this.addRibbonIcon('image', '打开图床图库', async () => {
+            await this.activateGallery();
+        });
+        galleryRibbon.addClass('lsky-gallery-ribbon');
+        if (!ribbonsEnabled) galleryRibbon.hide();
+
         const dlCurrentRibbon = this.addRibbonIcon('download', '下载当前笔记图床图片并更新引用', async () => {
-            await this.ensureClient();
             const { downloadImagesForCurrentNote } = await import('./src/features/download');
-            await downloadImagesForCurrentNote(this.app, this.settings.serverUrl);
+            await downloadImagesForCurrentNote(this.app, getAllImageHosts(this.settings.profiles), this.settings, this.journal);
         });
         dlCurrentRibbon.addClass('lsky-dl-current-ribbon');
         if (!ribbonsEnabled) dlCurrentRibbon.hide();
 
         const dlAllRibbon = this.addRibbonIcon('download', '下载所有笔记图床图片并更新引用', async () => {
-            await this.ensureClient();
             const { downloadImagesForAllNotes } = await import('./src/features/download');
-            await downloadImagesForAllNotes(this.app, this.settings.serverUrl);
+            await downloadImagesForAllNotes(this.app, getAllImageHosts(this.settings.profiles), this.settings, this.journal);
         });
         dlAllRibbon.addClass('lsky-dl-all-ribbon');
         if (!ribbonsEnabled) dlAllRibbon.hide();
@@ -80,10 +194,9 @@ export default class LskyPlugin extends Plugin {
         this.addCommand({
             id: 'lsky-upload-images-in-note',
             name: '上传当前笔记的本地图片到图床',
-            editorCallback: async (_editor: Editor, _view: MarkdownView) => {
-                await this.ensureClient();
-                if (!this.client) return;
-                const uploader = new CustomUploader(this.app, this.client);
+            editorCallback: async (_editor: Editor, view: MarkdownView) => {
+                const uploader = await this.createUploaderForNote(view.file);
+                if (!uploader) return;
                 await uploader.uploadAllLocalImages();
             }
         });
@@ -92,7 +205,36 @@ export default class LskyPlugin extends Plugin {
             id: 'lsky-view-used-images',
             name: '查看已使用的图床图片',
             callback: async () => {
-                await showUsedImages(this.app, this.settings.serverUrl);
+                await showUsedImages(this.app, this.usageIndex, getAllImageHosts(this.settings.profiles));
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-open-gallery',
+            name: '打开图床图库',
+            callback: async () => {
+                await this.activateGallery();
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-check-image-links',
+            name: '检查失效的图片链接',
+            callback: async () => {
+                const { checkImageLinks } = await import('./src/features/link-check');
+                await checkImageLinks(this.app, this.usageIndex, this.settings, (note) => this.createUploaderForNote(note), this.ledger, this.journal);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-usage-report',
+            name: '生成图片使用报告',
+            callback: async () => {
+                const profiles = await chooseProfiles(this.app, this.settings.profiles);
+                if (!profiles) return;
+                const targets = [];
+                for (const profile of profiles) targets.push({ profile, client: await this.ensureClient(profile) });
+                await writeUsageReport(this.app, this.usageIndex, targets);
             }
         });
 
@@ -100,9 +242,16 @@ export default class LskyPlugin extends Plugin {
             id: 'lsky-cleanup-unused-images',
             name: '清理未被引用的图床图片',
             callback: async () => {
-                await this.ensureClient();
-                if (!this.client) return;
-                await cleanupUnusedImages(this.app, this.client, this.settings.serverUrl);
+                const profiles = await chooseProfiles(this.app, this.settings.profiles);
+                if (profiles) await this.runCleanup(profiles);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-restore-quarantined-image',
+            name: '从隔离区恢复图片',
+            callback: () => {
+                chooseQuarantineEntry(this.app, this.quarantine, (profileId) => this.createUploader(getProfile(this.settings, profileId)), getAllImageHosts(this.settings.profiles), this.journal);
             }
         });
 
@@ -110,9 +259,8 @@ export default class LskyPlugin extends Plugin {
             id: 'lsky-download-current-note-images',
             name: '下载当前笔记图床图片并更新引用',
             callback: async () => {
-                await this.ensureClient();
                 const { downloadImagesForCurrentNote } = await import('./src/features/download');
-                await downloadImagesForCurrentNote(this.app, this.settings.serverUrl);
+                await downloadImagesForCurrentNote(this.app, getAllImageHosts(this.settings.profiles), this.settings, this.journal);
             }
         });
 
@@ -120,57 +268,302 @@ export default class LskyPlugin extends Plugin {
             id: 'lsky-download-all-notes-images',
             name: '下载所有笔记图床图片并更新引用',
             callback: async () => {
-                await this.ensureClient();
                 const { downloadImagesForAllNotes } = await import('./src/features/download');
-                await downloadImagesForAllNotes(this.app, this.settings.serverUrl);
+                await downloadImagesForAllNotes(this.app, getAllImageHosts(this.settings.profiles), this.settings, this.journal);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-rehost-current-note-images',
+            name: '转存当前笔记的外部图片到图床',
+            callback: async () => {
+                const { rehostImagesForCurrentNote } = await import('./src/features/rehost');
+                await rehostImagesForCurrentNote(this.app, getAllImageHosts(this.settings.profiles), this.settings, this.uploaderFactory(), this.journal);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-rehost-all-notes-images',
+            name: '转存所有笔记的外部图片到图床',
+            callback: async () => {
+                const { rehostImagesForAllNotes } = await import('./src/features/rehost');
+                await rehostImagesForAllNotes(this.app, getAllImageHosts(this.settings.profiles), this.settings, this.uploaderFactory(), this.journal);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-bulk-upload-vault',
+            name: '批量上传整个库的本地图片到图床',
+            callback: async () => {
+                await this.runBulkUpload('');
             }
         });
 
+        this.addCommand({
+            id: 'lsky-bulk-upload-folder',
+            name: '批量上传指定文件夹的本地图片到图床',
+            callback: async () => {
+                const folder = await chooseFolder(this.app);
+                if (folder) await this.runBulkUpload(folder.isRoot() ? '' : folder.path);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-migrate-images',
+            name: '迁移图床：把笔记引用的图片搬到另一个图床',
+            callback: async () => {
+                await this.runMigration();
+            }
+        });
+
+        const getUploader = (file: TFile | null) => this.createUploaderForNote(file);
+        this.registerEvent(this.app.workspace.on('editor-paste', (evt, editor, info) => {
+            handleEditorImageEvent(this.app, evt, editor, info, this.settings.pasteUploadMode, getUploader, this.settings.linkStyle);
+        }));
+        this.registerEvent(this.app.workspace.on('editor-drop', (evt, editor, info) => {
+            handleEditorImageEvent(this.app, evt, editor, info, this.settings.pasteUploadMode, getUploader, this.settings.linkStyle);
+        }));
+
+        this.addCommand({
+            id: 'lsky-ledger-view',
+            name: '查看上传记录',
+            callback: () => showLedger(this.app, this.ledger)
+        });
+
+        this.addCommand({
+            id: 'lsky-ledger-export',
+            name: '导出上传记录为 JSON',
+            callback: async () => {
+                await exportLedger(this.app, this.ledger);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-ledger-rebuild',
+            name: '根据图床重建上传记录',
+            callback: async () => {
+                const profiles = await chooseProfiles(this.app, this.settings.profiles);
+                if (!profiles) return;
+                for (const profile of profiles) {
+                    try {
+                        await rebuildLedger(this.app, await this.ensureClient(profile), this.ledger);
+                    } catch (e) {
+                        new Notice(`重建上传记录失败（${profile.name}）：` + (e as Error).message);
+                    }
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-undo-last-run',
+            name: '撤销最近一次上传或下载',
+            callback: async () => {
+                const entry = this.journal.latest();
+                if (!entry) { new Notice('没有可撤销的操作'); return; }
+                await this.revertRun(entry);
+            }
+        });
+
+        this.addCommand({
+            id: 'lsky-undo-run-history',
+            name: '从历史记录中选择要撤销的上传或下载',
+            callback: () => chooseJournalEntry(this.app, this.journal, (entry) => { this.revertRun(entry); })
+        });
+
+        this.addCommand({
+            id: 'lsky-pending-uploads',
+            name: '查看待上传队列',
+            callback: () => showPendingUploads(this.app, this.pendingUploads, () => this.retryPendingUploads(true))
+        });
+
+        // 网络恢复或定时补传离线期间未能上传的图片
+        this.registerDomEvent(window, 'online', () => { this.retryPendingUploads(); });
+        this.scheduleRetry();
+        this.app.workspace.onLayoutReady(() => { this.retryPendingUploads(); });
+
+        // 其他途径新建的图片在被笔记引用后自动上传；启动时加载已有文件也会触发 create，布局就绪后才开始监听
+        this.attachmentWatcher = new AttachmentWatcher(this.app, () => this.settings, (note) => this.createUploaderForNote(note), this.addStatusBarItem(), this.journal);
+        this.register(() => this.attachmentWatcher.stop());
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(this.app.vault.on('create', (file) => this.attachmentWatcher.onCreate(file)));
+        });
+
         if (this.settings.autoCleanupOnStartup) {
             setTimeout(async () => {
                 try {
                     const confirmed = await confirmAutoCleanup(this.app);
                     if (!confirmed) return;
-                    await this.ensureClient();
-                    if (!this.client) return;
-                    await cleanupUnusedImages(this.app, this.client, this.settings.serverUrl);
+                    await this.runCleanup(this.settings.profiles);
                 } catch { /* empty */ }
             }, 500);
         }
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // serverUrl / email / password / token / imageDomains 为单配置时代的字段，迁移为默认配置
+        const { state, serverUrl, email, password, token, imageDomains, ...settings } = (await this.loadData()) || {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+        this.state = Object.assign({}, DEFAULT_STATE, state);
+        if (this.settings.profiles.length === 0) {
+            const profile = createProfile('默认', serverUrl);
+            Object.assign(profile, { email: email ?? '', password: password ?? '', token: token ?? '', imageDomains: imageDomains ?? [] });
+            this.settings.profiles = [profile];
+            this.settings.defaultProfileId = profile.id;
+        }
+        // Token 与密码只保存在本机，不写入会同步的 data.json
+        this.secrets = new SecretBox(`lsky-uploader-secret-${this.app.vault.getName()}`);
+        const legacy = await openProfiles(this.settings.profiles, this.secrets);
+        const defaultId = getProfile(this.settings)?.id;
+        this.state.ledger.forEach(r => { if (!r.profileId) r.profileId = defaultId; });
+        this.state.quarantine.forEach(e => { if (!e.profileId) e.profileId = defaultId; });
+        if (legacy) await this.saveState();
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
-        this.refreshClient();
+        await this.saveState();
+        this.refreshClients();
         // Update ribbons visibility
         // Note: Obsidian API doesn't expose existing ribbons easily; reloading is simplest.
     }
 
-    private refreshClient() {
-        this.client = new LskyClient(this.app, {
-            serverUrl: this.settings.serverUrl,
-            email: this.settings.email,
-            password: this.settings.password,
-            token: this.settings.token
-        });
+    async saveState() {
+        await this.saveData({ ...this.settings, profiles: await sealProfiles(this.settings.profiles, this.secrets), state: this.state });
+    }
+
+    private refreshClients() {
+        this.clients.clear();
     }
 
-    async ensureClient() {
-        if (!this.client) this.refreshClient();
+    // 客户端直接持有配置对象，获取到的 Token 会写回配置
+    getClient(profile: LskyProfile): LskyClient {
+        let client = this.clients.get(profile.id);
+        if (!client) {
+            client = new LskyClient(this.app, profile, () => this.saveState());
+            this.clients.set(profile.id, client);
+        }
+        return client;
+    }
+
+    async ensureClient(profile: LskyProfile): Promise<LskyClient> {
+        const client = this.getClient(profile);
         try {
-            // lazy ensure token if missing
-            if (!this.settings.token) {
-                const token = await this.client!.getToken();
-                this.settings.token = token;
-                await this.saveSettings();
-                new Notice('已自动获取 Token');
+            if (!profile.token) {
+                await client.ensureToken();
+                new Notice(`已自动获取 Token（${profile.name}）`);
             }
         } catch (e) {
-            new Notice('无法获取 Token：' + (e as Error).message);
+            new Notice(e instanceof LskyAuthError ? `${profile.name}：${e.message}` : `无法获取 Token（${profile.name}）：` + (e as Error).message);
+        }
+        return client;
+    }
+
+    async createUploader(profile?: LskyProfile, target?: LskyUploadTarget): Promise<CustomUploader | undefined> {
+        if (!profile) { new Notice('请先在设置中添加图床配置'); return undefined; }
+        const client = await this.ensureClient(profile);
+        return new CustomUploader(this.app, client, this.ledger, this.settings, target ?? toUploadTarget(profile), this.pendingUploads, this.journal);
+    }
+
+    async createUploaderForNote(file: TFile | null): Promise<CustomUploader | undefined> {
+        const resolved = resolveUploadTarget(this.app, this.settings, file);
+        return this.createUploader(resolved?.profile, resolved?.target);
+    }
+
+    /** 按设置的间隔定时补传，修改间隔后重新调用 */
+    scheduleRetry() {
+        if (this.retryTimer !== null) window.clearInterval(this.retryTimer);
+        this.retryTimer = this.registerInterval(window.setInterval(() => { this.retryPendingUploads(); }, Math.max(1, this.settings.offlineRetryMinutes) * 60 * 1000));
+    }
+
+    async retryPendingUploads(manual = false) {
+        if (this.retrying || this.pendingUploads.size === 0) {
+            if (manual && !this.retrying) new Notice('没有等待上传的图片');
+            return;
+        }
+        if (!navigator.onLine) {
+            if (manual) new Notice('当前处于离线状态，稍后会自动重试');
+            return;
+        }
+        this.retrying = true;
+        try {
+            const uploaded = await drainPendingUploads(this.app, this.pendingUploads, (note) => this.createUploaderForNote(note));
+            if (uploaded > 0 || manual) new Notice(`已补传 ${uploaded} 张图片${this.pendingUploads.size ? `，还有 ${this.pendingUploads.size} 张等待上传` : ''}`);
+        } finally {
+            this.retrying = false;
+        }
+    }
+
+    async revertRun(entry: JournalEntry) {
+        try {
+            await revertEntry(this.app, this.journal, entry, async (profileId) => {
+                const profile = this.settings.profiles.find(p => p.id === profileId);
+                return profile ? this.ensureClient(profile) : undefined;
+            }, this.ledger);
+        } catch (e) {
+            new Notice('撤销失败：' + (e as Error).message);
+        }
+    }
+
+    // 一次运行中同一配置与上传目标的笔记共用一个上传器，避免重复获取 Token 和图床列表
+    private uploaderFactory(): (note: TFile) => Promise<CustomUploader | undefined> {
+        const uploaders = new Map<string, Promise<CustomUploader | undefined>>();
+        return (note) => {
+            const resolved = resolveUploadTarget(this.app, this.settings, note);
+            const key = resolved ? `${resolved.profile.id}|${JSON.stringify(resolved.target)}` : '';
+            let uploader = uploaders.get(key);
+            if (!uploader) {
+                uploader = this.createUploader(resolved?.profile, resolved?.target);
+                uploaders.set(key, uploader);
+            }
+            return uploader;
+        };
+    }
+
+    async runBulkUpload(folder: string) {
+        const store = {
+            get: () => this.state.bulkUpload,
+            set: async (checkpoint?: BulkUploadCheckpoint) => {
+                this.state.bulkUpload = checkpoint;
+                await this.saveState();
+            }
+        };
+        await bulkUploadLocalImages(this.app, folder, this.settings, store, this.uploaderFactory(), this.journal);
+    }
+
+    async activateGallery() {
+        let leaf = this.app.workspace.getLeavesOfType(GALLERY_VIEW_TYPE)[0];
+        if (!leaf) {
+            const right = this.app.workspace.getRightLeaf(false);
+            if (!right) return;
+            await right.setViewState({ type: GALLERY_VIEW_TYPE, active: true });
+            leaf = right;
+        }
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    async runMigration() {
+        const { migrateImages } = await import('./src/features/migrate');
+        const store = {
+            get: () => this.state.migration,
+            set: async (checkpoint?: MigrationCheckpoint) => {
+                this.state.migration = checkpoint;
+                await this.saveState();
+            }
+        };
+        try {
+            await migrateImages(this.app, this.settings.profiles, this.settings, store, (profile) => this.ensureClient(profile), (profile) => this.createUploader(profile), this.journal, this.ledger);
+        } catch (e) {
+            new Notice('迁移失败：' + (e as Error).message);
+        }
+    }
+
+    async runCleanup(profiles: LskyProfile[]) {
+        for (const profile of profiles) {
+            try {
+                const client = await this.ensureClient(profile);
+                await cleanupUnusedImages(this.app, client, profile, this.settings, this.quarantine, this.usageIndex, this.ledger);
+            } catch (e) {
+                new Notice(`清理失败（${profile.name}）：` + (e as Error).message);
+            }
         }
     }
 
@@ -178,6 +571,8 @@ export default class LskyPlugin extends Plugin {
 
 class LskySettingTab extends PluginSettingTab {
     plugin: LskyPlugin;
+    // 从服务器获取的存储策略与相册，按配置 id 缓存
+    private serverOptions = new Map<string, { strategies: LskyStrategy[]; albums: LskyAlbum[] }>();
 
     constructor(app: App, plugin: LskyPlugin) {
         super(app, plugin);
@@ -190,63 +585,298 @@ class LskySettingTab extends PluginSettingTab {
 
         containerEl.createEl('h2', { text: 'Lsky 图床设置' });
 
+        this.displayProfiles(containerEl);
+        this.displayProfileRules(containerEl);
+
+        containerEl.createEl('h3', { text: '上传' });
+
+        new Setting(containerEl)
+            .setName('执行前预览')
+            .setDesc('上传、下载和清理前先列出将要传输或删除的图片以及笔记中变化的链接行，可逐项取消勾选，确认后才执行')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.previewBeforeRun)
+                .onChange(async (v) => {
+                    this.plugin.settings.previewBeforeRun = v;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 按要求移除左侧边栏显示开关，始终显示按钮
+
+        new Setting(containerEl)
+            .setName('粘贴或拖入图片时')
+            .setDesc('直接上传：图片上传到图床并插入链接，失败时保存为本地附件；保存到本地：保持 Obsidian 默认行为；每次询问：弹窗选择')
+            .addDropdown(dropdown => dropdown
+                .addOption('upload', '直接上传')
+                .addOption('local', '保存到本地')
+                .addOption('ask', '每次询问')
+                .setValue(this.plugin.settings.pasteUploadMode)
+                .onChange(async (v) => {
+                    this.plugin.settings.pasteUploadMode = v as PasteUploadMode;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
-            .setName('图床服务器地址')
-            .setDesc('例如：https://lsky.example.com/api/v1')
+            .setName('链接格式')
+            .setDesc('上传或下载后改写图片链接时使用的格式；alt 文字、标题、尺寸和 HTML 属性都会保留。远程图片无法使用 wiki 链接，会改用 Markdown')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', '保持原有格式')
+                .addOption('markdown', 'Markdown ![](...)')
+                .addOption('wiki', 'Wiki ![[...]]')
+                .addOption('html', 'HTML <img>')
+                .setValue(this.plugin.settings.linkStyle)
+                .onChange(async (v) => {
+                    this.plugin.settings.linkStyle = v as LinkStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('上传后的本地图片')
+            .setDesc('上传成功并改写链接后如何处理本地图片文件；仍被其他笔记在本地引用的图片始终保留。归档的图片在撤销时会移回原处')
+            .addDropdown(dropdown => {
+                Object.entries(LOCAL_FILE_ACTION_TEXT).forEach(([value, text]) => dropdown.addOption(value, text));
+                dropdown
+                    .setValue(this.plugin.settings.localFileAction)
+                    .onChange(async (v) => {
+                        this.plugin.settings.localFileAction = v as LocalFileAction;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('归档文件夹')
+            .setDesc('选择「移到归档文件夹」时使用，图片按原有目录结构存放')
             .addText(text => text
-                .setPlaceholder('https://.../api/v1')
-                .setValue(this.plugin.settings.serverUrl)
+                .setPlaceholder('lsky-archive')
+                .setValue(this.plugin.settings.localArchiveFolder)
                 .onChange(async (value) => {
-                    this.plugin.settings.serverUrl = value.trim();
+                    this.plugin.settings.localArchiveFolder = value.trim();
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('用户邮箱')
+            .setName('重复图片复用链接')
+            .setDesc('上传前计算图片内容哈希，相同内容已上传过时直接使用已有链接，不再重复上传')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dedupeUploads)
+                .onChange(async (v) => {
+                    this.plugin.settings.dedupeUploads = v;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('同时比对图床中的图片')
+            .setDesc('上传记录中没有时，再拉取图床图片列表按 sha1 比对（图片较多时会变慢）')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dedupeCheckServer)
+                .onChange(async (v) => {
+                    this.plugin.settings.dedupeCheckServer = v;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('批量上传包含的笔记')
+            .setDesc('批量上传时只处理匹配的笔记，每行一个 glob 模式（如 posts/**），留空表示全部；不含 / 的模式只比对文件名')
+            .addTextArea(text => text
+                .setPlaceholder('posts/**')
+                .setValue(this.plugin.settings.bulkUploadInclude.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.bulkUploadInclude = value.split('\n').map(v => v.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('批量上传排除的笔记')
+            .setDesc('匹配的笔记不参与批量上传，每行一个 glob 模式')
+            .addTextArea(text => text
+                .setPlaceholder('templates/**\n*.excalidraw.md')
+                .setValue(this.plugin.settings.bulkUploadExclude.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.bulkUploadExclude = value.split('\n').map(v => v.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('自动上传新建的图片')
+            .setDesc('其他插件、同步或文件管理器在库中新建的图片，被笔记引用后在后台上传并改写链接；状态栏显示正在上传的数量')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoUploadNewImages)
+                .onChange(async (v) => {
+                    this.plugin.settings.autoUploadNewImages = v;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('自动上传的文件夹')
+            .setDesc('只处理这些文件夹中新建的图片，每行一个，留空表示整个库')
+            .addTextArea(text => text
+                .setPlaceholder('attachments')
+                .setValue(this.plugin.settings.autoUploadFolders.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.autoUploadFolders = value.split('\n').map(v => v.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('自动上传排除的图片')
+            .setDesc('匹配的图片不自动上传，每行一个 glob 模式；不含 / 的模式只比对文件名')
+            .addTextArea(text => text
+                .setPlaceholder('drafts/**\n*.excalidraw.png')
+                .setValue(this.plugin.settings.autoUploadExclude.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.autoUploadExclude = value.split('\n').map(v => v.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('自动上传等待时间（秒）')
+            .setDesc('最后一张图片新建后等待多久再处理，期间新建的图片合并为一批；还没有笔记引用的图片会继续等待几轮')
             .addText(text => text
-                .setPlaceholder('name@example.com')
-                .setValue(this.plugin.settings.email)
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.settings.autoUploadDelaySeconds))
                 .onChange(async (value) => {
-                    this.plugin.settings.email = value.trim();
+                    this.plugin.settings.autoUploadDelaySeconds = Math.max(1, parseInt(value, 10) || 5);
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: '上传前处理' });
+
+        new Setting(containerEl)
+            .setName('上传前压缩图片')
+            .setDesc('在本地转换格式并限制尺寸后再上传，GIF 与 SVG 始终原样上传')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.compressImages)
+                .onChange(async (v) => {
+                    this.plugin.settings.compressImages = v;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('输出格式')
+            .addDropdown(dropdown => dropdown
+                .addOption('original', '保持原格式')
+                .addOption('webp', 'WebP')
+                .addOption('jpeg', 'JPEG')
+                .setValue(this.plugin.settings.compressFormat)
+                .onChange(async (v) => {
+                    this.plugin.settings.compressFormat = v as CompressFormat;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('用户密码')
+            .setName('压缩质量')
+            .setDesc('仅对 WebP / JPEG 生效')
+            .addSlider(slider => slider
+                .setLimits(10, 100, 5)
+                .setValue(this.plugin.settings.compressQuality)
+                .setDynamicTooltip()
+                .onChange(async (v) => {
+                    this.plugin.settings.compressQuality = v;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('最大宽度 / 高度')
+            .setDesc('超出时等比缩小，填 0 表示不限制')
+            .addText(text => text
+                .setPlaceholder('宽度')
+                .setValue(String(this.plugin.settings.compressMaxWidth))
+                .onChange(async (value) => {
+                    this.plugin.settings.compressMaxWidth = Math.max(0, parseInt(value, 10) || 0);
+                    await this.plugin.saveSettings();
+                }))
             .addText(text => text
-                .setPlaceholder('••••••••')
-                .setValue(this.plugin.settings.password)
+                .setPlaceholder('高度')
+                .setValue(String(this.plugin.settings.compressMaxHeight))
                 .onChange(async (value) => {
-                    this.plugin.settings.password = value;
+                    this.plugin.settings.compressMaxHeight = Math.max(0, parseInt(value, 10) || 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: '网络请求' });
+
+        new Setting(containerEl)
+            .setName('同时进行的请求数')
+            .setDesc('上传、下载和删除图片时同时发出的请求数，图床限流严重时调小')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.plugin.settings.transferConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (v) => {
+                    this.plugin.settings.transferConcurrency = v;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Token')
-            .setDesc('可留空，插件会自动获取；也可手动粘贴已获取的 Token')
+            .setName('失败重试次数')
+            .setDesc('遇到 429、5xx 或网络错误时按 1s、2s、4s…… 递增的间隔重试，填 0 表示不重试')
             .addText(text => text
-                .setPlaceholder('可选')
-                .setValue(this.plugin.settings.token)
+                .setPlaceholder('3')
+                .setValue(String(this.plugin.settings.transferMaxRetries))
                 .onChange(async (value) => {
-                    this.plugin.settings.token = value.trim();
+                    this.plugin.settings.transferMaxRetries = Math.max(0, parseInt(value, 10) || 0);
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .addButton(button => button
-                .setButtonText('测试登录并获取 Token')
-                .onClick(async () => {
-                    try {
-                        const token = await testFetchToken(this.plugin.settings);
-                        this.plugin.settings.token = token;
-                        await this.plugin.saveSettings();
-                        new Notice('获取 Token 成功');
-                    } catch (e) {
-                        new Notice('获取 Token 失败：' + (e as Error).message);
-                    }
+            .setName('离线补传间隔（分钟）')
+            .setDesc('离线或图床不可用时上传失败的图片会加入待上传队列，按该间隔以及网络恢复时自动补传')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.settings.offlineRetryMinutes))
+                .onChange(async (value) => {
+                    this.plugin.settings.offlineRetryMinutes = Math.max(1, parseInt(value, 10) || 5);
+                    await this.plugin.saveSettings();
+                    this.plugin.scheduleRetry();
                 }));
 
-        // 按要求移除左侧边栏显示开关，始终显示按钮
+        containerEl.createEl('h3', { text: '下载' });
+
+        new Setting(containerEl)
+            .setName('图片保存位置')
+            .setDesc('下载图床图片时保存的目录，可使用 {{vault_attachment_folder}}（Obsidian 附件目录）、{{note_folder}}、{{note}}、{{date}}；同名文件内容相同时复用，不同时自动改名')
+            .addText(text => text
+                .setPlaceholder('{{vault_attachment_folder}}')
+                .setValue(this.plugin.settings.downloadPathTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.downloadPathTemplate = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('下载范围')
+            .setDesc('所有远程图片：把笔记中任意网站的图片保存到本地，不是图片的响应（如防盗链页面）会跳过')
+            .addDropdown(drop => drop
+                .addOption('lsky', '仅图床图片')
+                .addOption('any', '所有远程图片')
+                .setValue(this.plugin.settings.downloadScope)
+                .onChange(async (v) => {
+                    this.plugin.settings.downloadScope = v as DownloadScope;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('只下载这些域名')
+            .setDesc('每行一个域名，同时匹配子域名；留空表示不限制。同样适用于转存外部图片')
+            .addTextArea(text => text
+                .setPlaceholder('example.com\n*.cdn.example.com')
+                .setValue(this.plugin.settings.downloadAllowDomains.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.downloadAllowDomains = value.split('\n').map(v => v.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('不下载这些域名')
+            .setDesc('每行一个域名，同时匹配子域名，优先于上一项')
+            .addTextArea(text => text
+                .setPlaceholder('img.shields.io')
+                .setValue(this.plugin.settings.downloadDenyDomains.join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings.downloadDenyDomains = value.split('\n').map(v => v.trim()).filter(Boolean);
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: '清理' });
 
         new Setting(containerEl)
             .setName('启动时自动清理未引用图片')
@@ -258,6 +888,39 @@ class LskySettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('清理方式')
+            .setDesc('隔离：先备份并记录，隔离期满后仍未被引用才从图床删除；直接删除：确认后立即删除')
+            .addDropdown(dropdown => dropdown
+                .addOption('quarantine', '隔离后删除')
+                .addOption('delete', '直接删除')
+                .setValue(this.plugin.settings.cleanupMode)
+                .onChange(async (v) => {
+                    this.plugin.settings.cleanupMode = v as CleanupMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('隔离天数')
+            .addText(text => text
+                .setPlaceholder('7')
+                .setValue(String(this.plugin.settings.quarantineDays))
+                .onChange(async (value) => {
+                    this.plugin.settings.quarantineDays = Math.max(0, parseInt(value, 10) || 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('隔离备份目录')
+            .setDesc('隔离时把图片下载到该目录，用于恢复；留空则只记录不备份')
+            .addText(text => text
+                .setPlaceholder('lsky-backup')
+                .setValue(this.plugin.settings.quarantineBackupFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.quarantineBackupFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
 		// 添加联系作者部分
 		containerEl.createEl('h2', { text: '联系作者' });
 
@@ -271,22 +934,265 @@ class LskySettingTab extends PluginSettingTab {
 
 		// 样式已移至 styles.css
     }
-}
 
-async function testFetchToken(settings: LskySettings): Promise<string> {
-    const url = settings.serverUrl.replace(/\/$/, '') + '/tokens';
-    const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-        },
-        body: JSON.stringify({ email: settings.email, password: settings.password })
-    });
-    if (!res.ok) throw new Error('HTTP ' + res.status);
-    const json = await res.json();
-    if (!json?.status || !json?.data?.token) throw new Error(json?.message || '返回数据无 token');
-    return json.data.token as string;
+    private displayProfiles(containerEl: HTMLElement) {
+        const settings = this.plugin.settings;
+        containerEl.createEl('h3', { text: '图床配置' });
+
+        new Setting(containerEl)
+            .setName('默认配置')
+            .setDesc('没有命中任何规则的笔记使用该配置上传')
+            .addDropdown(dropdown => {
+                settings.profiles.forEach(p => dropdown.addOption(p.id, p.name));
+                dropdown
+                    .setValue(getProfile(settings)?.id || '')
+                    .onChange(async (v) => {
+                        settings.defaultProfileId = v;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        settings.profiles.forEach(profile => {
+            const section = containerEl.createDiv({ cls: 'lsky-profile-section' });
+            section.createEl('h4', { text: profile.name });
+
+            new Setting(section)
+                .setName('名称')
+                .addText(text => text
+                    .setValue(profile.name)
+                    .onChange(async (value) => {
+                        profile.name = value.trim() || profile.name;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(section)
+                .setName('图床服务器地址')
+                .setDesc('例如：https://lsky.example.com/api/v1')
+                .addText(text => text
+                    .setPlaceholder('https://.../api/v1')
+                    .setValue(profile.serverUrl)
+                    .onChange(async (value) => {
+                        profile.serverUrl = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(section)
+                .setName('图片额外域名')
+                .setDesc('图片链接可能使用的其他域名（如 CDN），每行一个；这些域名下的链接同样视为图床图片')
+                .addTextArea(text => text
+                    .setPlaceholder('cdn.example.com')
+                    .setValue(profile.imageDomains.join('\n'))
+                    .onChange(async (value) => {
+                        profile.imageDomains = value.split('\n').map(v => v.trim()).filter(Boolean);
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(section)
+                .setName('用户邮箱')
+                .addText(text => text
+                    .setPlaceholder('name@example.com')
+                    .setValue(profile.email)
+                    .onChange(async (value) => {
+                        profile.email = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(section)
+                .setName('用户密码')
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text.setPlaceholder('••••••••')
+                        .setValue(profile.password)
+                        .onChange(async (value) => {
+                            profile.password = value;
+                            await this.plugin.saveSettings();
+                        });
+                });
+
+            new Setting(section)
+                .setName('记住密码')
+                .setDesc('关闭后只保存 Token，密码只在本次运行期间使用；Token 失效后需要重新输入密码登录。Token 与密码只加密保存在本机，不会写入同步的 data.json，每台设备需要各自登录')
+                .addToggle(toggle => toggle
+                    .setValue(profile.rememberPassword)
+                    .onChange(async (value) => {
+                        profile.rememberPassword = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(section)
+                .setName('Token')
+                .setDesc('可留空，插件会自动获取；也可手动粘贴已获取的 Token')
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text.setPlaceholder('可选')
+                        .setValue(profile.token)
+                        .onChange(async (value) => {
+                            profile.token = value.trim();
+                            await this.plugin.saveSettings();
+                        });
+                });
+
+            this.addTargetDropdowns(new Setting(section).setName('上传位置').setDesc('存储策略 / 相册 / 权限'), profile, profile.id, '服务器默认');
+
+            const actions = new Setting(section)
+                .addButton(button => button
+                    .setButtonText('测试登录并获取 Token')
+                    .onClick(async () => {
+                        try {
+                            await this.plugin.getClient(profile).getToken();
+                            new Notice('获取 Token 成功');
+                            this.display();
+                        } catch (e) {
+                            new Notice('获取 Token 失败：' + (e as Error).message);
+                        }
+                    }))
+                .addButton(button => button
+                    .setButtonText('退出登录')
+                    .setDisabled(!profile.token)
+                    .onClick(async () => {
+                        try {
+                            await this.plugin.getClient(profile).logout();
+                            new Notice(`已退出登录（${profile.name}），服务器上的 Token 已全部失效`);
+                            this.display();
+                        } catch (e) {
+                            new Notice('退出登录失败：' + (e as Error).message);
+                        }
+                    }))
+                .addButton(button => button
+                    .setButtonText('获取存储策略和相册')
+                    .onClick(async () => {
+                        await this.loadServerOptions(profile);
+                        this.display();
+                    }));
+            if (settings.profiles.length > 1) {
+                actions.addButton(button => button
+                    .setButtonText('删除此配置')
+                    .setWarning()
+                    .onClick(async () => {
+                        settings.profiles = settings.profiles.filter(p => p.id !== profile.id);
+                        settings.profileRules = settings.profileRules.filter(r => r.profileId !== profile.id);
+                        if (settings.defaultProfileId === profile.id) settings.defaultProfileId = settings.profiles[0].id;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('添加图床配置')
+                .onClick(async () => {
+                    settings.profiles.push(createProfile(`配置 ${settings.profiles.length + 1}`));
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private async loadServerOptions(profile: LskyProfile) {
+        try {
+            const client = await this.plugin.ensureClient(profile);
+            const [strategies, albums] = await Promise.all([client.listStrategies(), client.listAlbums()]);
+            this.serverOptions.set(profile.id, { strategies, albums });
+            new Notice(`已获取 ${strategies.length} 个存储策略、${albums.length} 个相册`);
+        } catch (e) {
+            new Notice('获取存储策略和相册失败：' + (e as Error).message);
+        }
+    }
+
+    private addTargetDropdowns(setting: Setting, holder: UploadTargetSettings, profileId: string, emptyLabel: string) {
+        const options = this.serverOptions.get(profileId);
+        // 未从服务器获取列表时，仍显示已保存的 id
+        const withCurrent = <T extends { id: number; name: string }>(items: T[], current?: number) =>
+            current && !items.some(i => i.id === current) ? [...items, { id: current, name: `#${current}` }] : items;
+        setting
+            .addDropdown(dropdown => {
+                dropdown.addOption('', `策略：${emptyLabel}`);
+                withCurrent(options?.strategies || [], holder.strategyId).forEach(s => dropdown.addOption(String(s.id), s.name));
+                dropdown
+                    .setValue(holder.strategyId ? String(holder.strategyId) : '')
+                    .onChange(async (v) => {
+                        holder.strategyId = v ? Number(v) : undefined;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addDropdown(dropdown => {
+                dropdown.addOption('', `相册：${emptyLabel}`);
+                withCurrent(options?.albums || [], holder.albumId).forEach(a => dropdown.addOption(String(a.id), a.name));
+                dropdown
+                    .setValue(holder.albumId ? String(holder.albumId) : '')
+                    .onChange(async (v) => {
+                        holder.albumId = v ? Number(v) : undefined;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addDropdown(dropdown => dropdown
+                .addOption('', `权限：${emptyLabel}`)
+                .addOption('public', '公开')
+                .addOption('private', '私有')
+                .setValue(holder.permission || '')
+                .onChange(async (v) => {
+                    holder.permission = v as ImagePermission;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private displayProfileRules(containerEl: HTMLElement) {
+        const settings = this.plugin.settings;
+        containerEl.createEl('h3', { text: '配置规则' });
+        containerEl.createEl('p', { text: '按顺序匹配笔记所在文件夹或标签，第一条命中的规则决定上传到哪个图床配置', cls: 'setting-item-description' });
+
+        settings.profileRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .addDropdown(dropdown => dropdown
+                    .addOption('folder', '文件夹')
+                    .addOption('tag', '标签')
+                    .setValue(rule.type)
+                    .onChange(async (v) => {
+                        rule.type = v as ProfileRuleType;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder(rule.type === 'folder' ? 'Work/' : '#work')
+                    .setValue(rule.match)
+                    .onChange(async (value) => {
+                        rule.match = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => {
+                    settings.profiles.forEach(p => dropdown.addOption(p.id, p.name));
+                    dropdown
+                        .setValue(rule.profileId)
+                        .onChange(async (v) => {
+                            // 策略与相册 id 只在所属服务器上有效
+                            rule.profileId = v;
+                            rule.strategyId = undefined;
+                            rule.albumId = undefined;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('删除规则')
+                    .onClick(async () => {
+                        settings.profileRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            const overrides = new Setting(containerEl).setDesc('覆盖上传位置');
+            overrides.settingEl.addClass('lsky-rule-overrides');
+            this.addTargetDropdowns(overrides, rule, rule.profileId, '沿用配置');
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('添加规则')
+                .onClick(async () => {
+                    settings.profileRules.push({ type: 'folder', match: '', profileId: getProfile(settings)?.id || '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
 }
 
 // Sidebar view removed per updated requirement
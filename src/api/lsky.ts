@@ -1,6 +1,9 @@
 import {App} from 'obsidian';
+import {retryWithBackoff} from '../utils/queue';
 
 export interface LskyAuthConfig {
+	/** 所属图床配置的 id */
+	id?: string;
 	serverUrl: string;
 	email: string;
 	password: string;
@@ -13,73 +16,151 @@ export interface LskyImageItem {
 	origin_name?: string;
 	pathname?: string;
 	size?: number;
+	md5?: string;
+	sha1?: string;
+	/** 上传时间，如 2022-01-01 12:00:00 */
+	date?: string;
 	links: { url: string; thumbnail_url?: string };
 }
 
-interface LskyListResponse {
+export interface LskyStrategy {
+	id: number;
+	name: string;
+}
+
+export interface LskyAlbum {
+	id: number;
+	name: string;
+	intro?: string;
+	image_num?: number;
+}
+
+/** 上传目标，未设置的字段由服务器决定 */
+export interface LskyUploadTarget {
+	strategyId?: number;
+	albumId?: number;
+	/** 1 公开，0 私有 */
+	permission?: 0 | 1;
+}
+
+interface LskyListResponse<T = LskyImageItem> {
 	data: {
 		current_page: number;
 		last_page: number;
-		data: LskyImageItem[];
+		data: T[];
 	};
 }
 
+/** 带 HTTP 状态码的请求错误，传输队列据此判断是否重试 */
+export class LskyHttpError extends Error {
+	status: number;
+
+	constructor(status: number, details = '') {
+		super(`HTTP ${status}${details ? ` - ${details}` : ''}`);
+		this.name = 'LskyHttpError';
+		this.status = status;
+	}
+}
+
+/** 无法登录或 Token 已失效且无法自动重新获取，需要用户在设置中重新登录 */
+export class LskyAuthError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'LskyAuthError';
+	}
+}
+
 export class LskyClient {
 	private app: App;
 	private config: LskyAuthConfig;
-	private isFetchingToken = false;
+	private fetchingToken?: Promise<string>;
+	// Token 变化（获取、刷新、退出登录）时由插件保存配置
+	private onTokenChange?: () => Promise<void>;
 
-	constructor(app: App, config: LskyAuthConfig) {
+	constructor(app: App, config: LskyAuthConfig, onTokenChange?: () => Promise<void>) {
 		this.app = app;
 		this.config = config;
+		this.onTokenChange = onTokenChange;
+	}
+
+	get profileId(): string {
+		return this.config.id || '';
 	}
 
 	private get baseUrl(): string {
 		return this.config.serverUrl.replace(/\/$/, '');
 	}
 
-	async getToken(): Promise<string> {
-		if (this.isFetchingToken) {
-			// Small wait loop to avoid concurrent POST /tokens
-			await new Promise(r => setTimeout(r, 200));
-			return this.getToken();
+	/** 用邮箱和密码获取新的 Token；并发调用共用同一次请求 */
+	getToken(): Promise<string> {
+		if (!this.fetchingToken) {
+			const pending = this.fetchToken();
+			const done = () => { if (this.fetchingToken === pending) this.fetchingToken = undefined; };
+			pending.then(done, done);
+			this.fetchingToken = pending;
 		}
-		this.isFetchingToken = true;
-		try {
+		return this.fetchingToken;
+	}
+
+	private async fetchToken(): Promise<string> {
+		if (!this.config.email || !this.config.password) throw new LskyAuthError(this.config.token ? 'Token 已失效且未保存密码，请在设置中重新登录' : '未登录，请在设置中填写邮箱和密码');
+		const res = await fetch(`${this.baseUrl}/tokens`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+			body: JSON.stringify({ email: this.config.email, password: this.config.password })
+		});
+		const json = await res.json().catch(() => null);
+		if (res.status === 401 || res.status === 403 || res.status === 422) throw new LskyAuthError(`登录失败：${json?.message || `HTTP ${res.status}`}`);
+		if (!res.ok) throw new LskyHttpError(res.status, json?.message);
+		if (!json?.status || !json?.data?.token) throw new LskyAuthError(`登录失败：${json?.message || '返回数据无 token'}`);
+		this.config.token = json.data.token as string;
+		await this.onTokenChange?.();
+		return this.config.token;
+	}
+
+	/** 还没有 Token 时先登录 */
+	async ensureToken(): Promise<void> {
+		if (!this.config.token) await this.getToken();
+	}
+
+	/** 退出登录：通过 DELETE /tokens 让服务器上该账号的所有 Token 失效，并清除本地的 Token 与密码 */
+	async logout(): Promise<void> {
+		if (this.config.token) {
 			const res = await fetch(`${this.baseUrl}/tokens`, {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
-				body: JSON.stringify({ email: this.config.email, password: this.config.password })
+				method: 'DELETE',
+				headers: { 'Accept': 'application/json', 'Authorization': `Bearer ${this.config.token}` }
 			});
-			if (!res.ok) throw new Error('HTTP ' + res.status);
-			const json = await res.json();
-			if (!json?.status || !json?.data?.token) throw new Error(json?.message || 'no token');
-			this.config.token = json.data.token as string;
-			return this.config.token;
-		} finally {
-			this.isFetchingToken = false;
+			// Token 本来就已失效时同样视为已退出
+			if (!res.ok && res.status !== 401) throw new LskyHttpError(res.status);
 		}
+		this.config.token = '';
+		this.config.password = '';
+		await this.onTokenChange?.();
 	}
 
 	private async authorizedFetch(input: string, init: RequestInit = {}, retry401 = true): Promise<Response> {
+		await this.ensureToken();
 		const headers: Record<string, string> = {
 			'Accept': 'application/json',
 			...(init.headers as Record<string, string> || {})
 		};
-		if (this.config.token) headers['Authorization'] = `Bearer ${this.config.token}`;
+		headers['Authorization'] = `Bearer ${this.config.token}`;
 		const res = await fetch(input, { ...init, headers });
-		if (res.status === 401 && retry401) {
+		if (res.status === 401) {
+			if (!retry401) throw new LskyAuthError('Token 无效，请在设置中重新登录');
 			await this.getToken();
 			return this.authorizedFetch(input, init, false);
 		}
 		return res;
 	}
 
-	async uploadBinary(binary: ArrayBuffer, filename: string, mimeType: string, strategyId?: number): Promise<string> {
+	async uploadBinary(binary: ArrayBuffer, filename: string, mimeType: string, target: LskyUploadTarget = {}): Promise<LskyImageItem> {
 		const form = new FormData();
 		form.append('file', new Blob([binary], { type: mimeType }), filename);
-		// Some Lsky setups require strategy_id; default to 1 if not provided
-		form.append('strategy_id', String(strategyId ?? 1));
+		// 未选择存储策略时不传 strategy_id，由服务器使用账号的默认策略
+		if (target.strategyId !== undefined) form.append('strategy_id', String(target.strategyId));
+		if (target.albumId !== undefined) form.append('album_id', String(target.albumId));
+		if (target.permission !== undefined) form.append('permission', String(target.permission));
 		const res = await this.authorizedFetch(`${this.baseUrl}/upload`, { method: 'POST', body: form });
 		if (!res.ok) {
 			let details = '';
@@ -88,12 +169,12 @@ export class LskyClient {
 			} catch (err) {
 				// 忽略解析错误，使用空字符串作为默认值
 			}
-			throw new Error(`HTTP ${res.status}${details ? ` - ${details}` : ''}`);
+			throw new LskyHttpError(res.status, details);
 		}
 		let json: any;
 		try { json = await res.json(); } catch (e) { throw new Error('Invalid JSON from server'); }
 		if (!json?.status || !json?.data?.links?.url) throw new Error(json?.message || 'upload failed');
-		return json.data.links.url as string;
+		return json.data as LskyImageItem;
 	}
 
 	async listAllImages(): Promise<LskyImageItem[]> {
@@ -101,21 +182,45 @@ export class LskyClient {
 		let last = 1;
 		const result: LskyImageItem[] = [];
 		do {
-			const res = await this.authorizedFetch(`${this.baseUrl}/images?page=${page}`);
-			if (!res.ok) throw new Error('HTTP ' + res.status);
-			const json: LskyListResponse = await res.json();
+			// 分页较多时容易被限流，单页失败按退避重试而不是整体失败
+			const json: LskyListResponse = await retryWithBackoff(async () => {
+				const res = await this.authorizedFetch(`${this.baseUrl}/images?page=${page}`);
+				if (!res.ok) throw new LskyHttpError(res.status);
+				return res.json();
+			}, 3);
 			const items = json?.data?.data || [];
 			result.push(...items);
 			last = json?.data?.last_page || page;
 			page++;
-			await new Promise(r => setTimeout(r, 80));
+		} while (page <= last);
+		return result;
+	}
+
+	async listStrategies(): Promise<LskyStrategy[]> {
+		const res = await this.authorizedFetch(`${this.baseUrl}/strategies`);
+		if (!res.ok) throw new LskyHttpError(res.status);
+		const json = await res.json();
+		return (json?.data?.strategies || []) as LskyStrategy[];
+	}
+
+	async listAlbums(): Promise<LskyAlbum[]> {
+		let page = 1;
+		let last = 1;
+		const result: LskyAlbum[] = [];
+		do {
+			const res = await this.authorizedFetch(`${this.baseUrl}/albums?page=${page}`);
+			if (!res.ok) throw new LskyHttpError(res.status);
+			const json: LskyListResponse<LskyAlbum> = await res.json();
+			result.push(...(json?.data?.data || []));
+			last = json?.data?.last_page || page;
+			page++;
 		} while (page <= last);
 		return result;
 	}
 
 	async deleteImageByKey(key: string): Promise<void> {
 		const res = await this.authorizedFetch(`${this.baseUrl}/images/${encodeURIComponent(key)}`, { method: 'DELETE' });
-		if (!res.ok) throw new Error('HTTP ' + res.status);
+		if (!res.ok) throw new LskyHttpError(res.status);
 	}
 }
 
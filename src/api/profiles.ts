@@ -0,0 +1,138 @@
+import {App, getAllTags, TFile} from 'obsidian';
+import {LskyAuthConfig, LskyUploadTarget} from './lsky';
+import {getImageHosts} from '../utils/url';
+import {SecretBox} from '../utils/secret';
+
+export type ImagePermission = '' | 'public' | 'private';
+
+/** 上传到哪个存储策略、相册以及公开与否，留空表示使用服务器默认 */
+export interface UploadTargetSettings {
+	strategyId?: number;
+	albumId?: number;
+	permission?: ImagePermission;
+}
+
+export interface LskyProfile extends LskyAuthConfig, UploadTargetSettings {
+	id: string;
+	name: string;
+	token: string;
+	/** 关闭后只保存 Token，密码仅在本次运行期间保留在内存中 */
+	rememberPassword: boolean;
+	/** 图片链接可能使用的其他域名，例如 CDN */
+	imageDomains: string[];
+}
+
+export type ProfileRuleType = 'folder' | 'tag';
+
+/** 规则中的上传目标会覆盖所选配置的默认值 */
+export interface ProfileRule extends UploadTargetSettings {
+	type: ProfileRuleType;
+	/** 文件夹路径或标签（可带 #），子文件夹与子标签同样匹配 */
+	match: string;
+	profileId: string;
+}
+
+export interface ProfileSettings {
+	profiles: LskyProfile[];
+	defaultProfileId: string;
+	profileRules: ProfileRule[];
+}
+
+export function createProfile(name: string, serverUrl = 'https://lsky.example.com/api/v1'): LskyProfile {
+	return {
+		id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+		name,
+		serverUrl,
+		email: '',
+		password: '',
+		token: '',
+		rememberPassword: true,
+		imageDomains: []
+	};
+}
+
+export function getProfile(settings: ProfileSettings, id?: string): LskyProfile | undefined {
+	return settings.profiles.find(p => p.id === id) || settings.profiles.find(p => p.id === settings.defaultProfileId) || settings.profiles[0];
+}
+
+/**
+ * 保存前把 Token 与密码写入本机存储，返回写入 data.json 的配置（不含凭据）。
+ * 不记住密码的配置只在内存中保留密码。
+ */
+export async function sealProfiles(profiles: LskyProfile[], box: SecretBox): Promise<LskyProfile[]> {
+	box.prune(profiles.flatMap(p => [`${p.id}-token`, `${p.id}-password`]));
+	return Promise.all(profiles.map(async p => {
+		await box.store(`${p.id}-token`, p.token);
+		await box.store(`${p.id}-password`, p.rememberPassword ? p.password : '');
+		return { ...p, password: '', token: '' };
+	}));
+}
+
+/**
+ * 读取本机保存的 Token 与密码。旧版本写在 data.json 中的凭据（明文，或本机能解开的密文）在本机还没有时迁移过来，
+ * 返回是否需要重新保存以从 data.json 中移除它们。
+ */
+export async function openProfiles(profiles: LskyProfile[], box: SecretBox): Promise<boolean> {
+	let legacy = false;
+	for (const p of profiles) {
+		p.rememberPassword = p.rememberPassword ?? true;
+		if (p.token || p.password) legacy = true;
+		p.token = await box.load(`${p.id}-token`) || await box.open(p.token);
+		p.password = await box.load(`${p.id}-password`) || await box.open(p.password);
+	}
+	return legacy;
+}
+
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+function ruleMatches(app: App, rule: ProfileRule, file: TFile): boolean {
+	const match = rule.match.trim();
+	if (!match) return false;
+	if (rule.type === 'folder') {
+		const folder = match.replace(/^\/+|\/+$/g, '');
+		return folder === '' || file.path.startsWith(folder + '/');
+	}
+	const cache = app.metadataCache.getFileCache(file);
+	const tags = cache ? (getAllTags(cache) || []) : [];
+	const wanted = normalizeTag(match);
+	return tags.some(t => { const tag = normalizeTag(t); return tag === wanted || tag.startsWith(wanted + '/'); });
+}
+
+export function toUploadTarget(...layers: UploadTargetSettings[]): LskyUploadTarget {
+	const target: LskyUploadTarget = {};
+	for (const layer of layers) {
+		if (layer.strategyId) target.strategyId = layer.strategyId;
+		if (layer.albumId) target.albumId = layer.albumId;
+		if (layer.permission) target.permission = layer.permission === 'public' ? 1 : 0;
+	}
+	return target;
+}
+
+/**
+ * 按规则顺序为笔记选择图床配置与上传目标，第一条命中的规则生效，都不命中时使用默认配置。
+ */
+export function resolveUploadTarget(app: App, settings: ProfileSettings, file?: TFile | null): { profile: LskyProfile; target: LskyUploadTarget } | undefined {
+	if (file) {
+		for (const rule of settings.profileRules) {
+			if (ruleMatches(app, rule, file)) {
+				const profile = settings.profiles.find(p => p.id === rule.profileId);
+				if (profile) return { profile, target: toUploadTarget(profile, rule) };
+			}
+		}
+	}
+	const profile = getProfile(settings);
+	return profile ? { profile, target: toUploadTarget(profile) } : undefined;
+}
+
+export function resolveProfile(app: App, settings: ProfileSettings, file?: TFile | null): LskyProfile | undefined {
+	return resolveUploadTarget(app, settings, file)?.profile;
+}
+
+/** 所有配置的图片域名合集，用于查看、下载等不区分配置的功能 */
+export function getAllImageHosts(profiles: LskyProfile[]): string[] {
+	const hosts = new Set<string>();
+	profiles.forEach(p => getImageHosts(p.serverUrl, p.imageDomains).forEach(h => hosts.add(h)));
+	return Array.from(hosts);
+}
@@ -0,0 +1,163 @@
+import {App, Notice, TAbstractFile, TFile} from 'obsidian';
+import {matchesAnyGlob} from '../utils/glob';
+import {IMAGE_EXTENSIONS} from '../utils/references';
+import {CustomUploader} from './upload';
+import {JournalRecorder, RunJournal} from './journal';
+import {cleanupLocalFiles, LOCAL_FILE_ACTION_TEXT, LocalFileOptions} from './local-files';
+import {rewriteNote} from './offline-queue';
+
+export interface AutoUploadOptions extends LocalFileOptions {
+	autoUploadNewImages: boolean;
+	/** 只处理这些文件夹中新建的图片，为空表示整个库 */
+	autoUploadFolders: string[];
+	/** 跳过匹配的图片路径（glob） */
+	autoUploadExclude: string[];
+	/** 最后一张图片新建后等待的秒数，期间新建的图片合并为一批处理 */
+	autoUploadDelaySeconds: number;
+}
+
+// 新建后一直没有笔记引用的图片，等待这么多轮后放弃
+const MAX_WAIT_ROUNDS = 6;
+
+// 插件自己写入的图片（下载、粘贴时保存到本地、隔离区备份）不自动上传
+const ownFiles = new Set<string>();
+
+export function markOwnFile(path: string) {
+	ownFiles.add(path);
+}
+
+function inFolders(file: TFile, folders: string[]): boolean {
+	return folders.length === 0 || folders.some(f => {
+		const folder = f.trim().replace(/^\/+|\/+$/g, '');
+		return folder === '' || file.path.startsWith(folder + '/');
+	});
+}
+
+/**
+ * 监听库中新建的图片（其他插件、移动端同步、文件管理器拖入等），等到有笔记引用后在后台上传并改写这些笔记。
+ * 状态栏显示正在上传的数量；上传失败且可重试时加入待上传队列。
+ */
+export class AttachmentWatcher {
+	private app: App;
+	private options: () => AutoUploadOptions;
+	private getUploader: (note: TFile | null) => Promise<CustomUploader | undefined>;
+	private statusBar: HTMLElement;
+	private journal?: RunJournal;
+	// 等待处理的图片 -> 已等待的轮数
+	private waiting = new Map<TFile, number>();
+	private timer: number | null = null;
+	private running = false;
+
+	constructor(app: App, options: () => AutoUploadOptions, getUploader: (note: TFile | null) => Promise<CustomUploader | undefined>, statusBar: HTMLElement, journal?: RunJournal) {
+		this.app = app;
+		this.options = options;
+		this.getUploader = getUploader;
+		this.statusBar = statusBar;
+		this.journal = journal;
+		this.setStatus([]);
+	}
+
+	onCreate(file: TAbstractFile) {
+		if (!(file instanceof TFile) || ownFiles.delete(file.path)) return;
+		const options = this.options();
+		if (!options.autoUploadNewImages || !IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) return;
+		if (!inFolders(file, options.autoUploadFolders) || matchesAnyGlob(file.path, options.autoUploadExclude)) return;
+		this.waiting.set(file, 0);
+		this.schedule();
+	}
+
+	/** 插件卸载时停止等待 */
+	stop() {
+		if (this.timer !== null) window.clearTimeout(this.timer);
+		this.timer = null;
+		this.waiting.clear();
+	}
+
+	private schedule() {
+		if (this.timer !== null) window.clearTimeout(this.timer);
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.flush();
+		}, Math.max(1, this.options().autoUploadDelaySeconds) * 1000);
+	}
+
+	/** 引用该图片的笔记，来自 metadataCache.resolvedLinks */
+	private referencingNotes(file: TFile): TFile[] {
+		const notes: TFile[] = [];
+		for (const [source, links] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+			if (!links[file.path]) continue;
+			const note = this.app.vault.getAbstractFileByPath(source);
+			if (note instanceof TFile && note.extension === 'md') notes.push(note);
+		}
+		return notes;
+	}
+
+	private async flush() {
+		// 上一批还没传完时，等下一轮再处理
+		if (this.running) { this.schedule(); return; }
+		this.running = true;
+		const ready: { file: TFile; notes: TFile[] }[] = [];
+		this.waiting.forEach((rounds, file) => {
+			if (!this.app.vault.getAbstractFileByPath(file.path)) { this.waiting.delete(file); return; }
+			const notes = this.referencingNotes(file);
+			if (notes.length) {
+				ready.push({ file, notes });
+				this.waiting.delete(file);
+			} else if (rounds + 1 >= MAX_WAIT_ROUNDS) {
+				this.waiting.delete(file);
+			} else {
+				this.waiting.set(file, rounds + 1);
+			}
+		});
+		try {
+			for (let i = 0; i < ready.length; i++) {
+				this.setStatus(ready.slice(i).map(r => r.file));
+				await this.upload(ready[i].file, ready[i].notes);
+			}
+		} finally {
+			this.running = false;
+			this.setStatus([]);
+		}
+		if (this.waiting.size) this.schedule();
+	}
+
+	private async upload(file: TFile, notes: TFile[]) {
+		const uploader = await this.getUploader(notes[0]);
+		if (!uploader) return;
+		let url: string;
+		try {
+			url = await uploader.uploadImageFile(file, notes[0]);
+		} catch (e) {
+			let deferred = false;
+			for (const note of notes) deferred = await uploader.deferUpload(file, note, e as Error) || deferred;
+			new Notice(deferred ? `自动上传 ${file.name} 失败，已加入待上传队列` : `自动上传 ${file.name} 失败：${(e as Error).message}`);
+			return;
+		}
+		// 图片已在图床上，之后的失败不应再加入待上传队列，分别提示
+		const recorder = new JournalRecorder(this.journal, 'upload', `自动上传 ${file.path}`);
+		recorder.uploaded(uploader.uploadedImages);
+		const rewritten: TFile[] = [];
+		for (const note of notes) {
+			try {
+				if (await rewriteNote(this.app, uploader, note, file.path, url, recorder.substitution(note.path))) rewritten.push(note);
+			} catch (e) {
+				new Notice(`已自动上传 ${file.name}，但更新 ${note.path} 失败：${(e as Error).message}`);
+			}
+		}
+		const options = this.options();
+		let handled = 0;
+		try {
+			handled = await cleanupLocalFiles(this.app, [file], rewritten, options, recorder);
+		} catch (e) {
+			new Notice(`已自动上传 ${file.name}，但处理本地图片失败：${(e as Error).message}`);
+		}
+		await recorder.save();
+		new Notice(`已自动上传 ${file.name}，更新 ${rewritten.length} 篇笔记${handled ? `，本地图片已${LOCAL_FILE_ACTION_TEXT[options.localFileAction]}` : ''}`);
+	}
+
+	private setStatus(files: TFile[]) {
+		this.statusBar.toggle(files.length > 0);
+		this.statusBar.setText(`Lsky 上传中：${files.length}`);
+		this.statusBar.setAttr('title', files.map(f => f.path).join('\n'));
+	}
+}
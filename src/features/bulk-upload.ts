@@ -0,0 +1,195 @@
+import {App, Modal, Notice, TFile} from 'obsidian';
+import {ProgressModal} from '../ui/progress';
+import {matchesAnyGlob} from '../utils/glob';
+import {noteKey, NoteChange, PlanItem, PreviewOptions, reviewPlan} from '../ui/review';
+import {summarizeTransfers, TransferOptions, TransferQueue, TransferSummary} from '../utils/queue';
+import {CustomUploader} from './upload';
+import {JournalRecorder, RunJournal} from './journal';
+import {cleanupLocalFiles, LOCAL_FILE_ACTION_TEXT, LocalFileOptions} from './local-files';
+
+export interface BulkUploadOptions extends TransferOptions, PreviewOptions, LocalFileOptions {
+	/** 只处理匹配的笔记，为空表示全部 */
+	bulkUploadInclude: string[];
+	/** 跳过匹配的笔记 */
+	bulkUploadExclude: string[];
+}
+
+/** 批量上传的断点，保存在插件 state 中，中断后可以继续 */
+export interface BulkUploadCheckpoint {
+	/** 处理范围，空字符串表示整个库 */
+	folder: string;
+	include: string[];
+	exclude: string[];
+	startedAt: number;
+	/** 已上传的本地文件：`上传目标|文件路径` -> 链接 */
+	uploaded: Record<string, string>;
+	/** 所有图片都已处理完成的笔记 */
+	doneNotes: string[];
+}
+
+export interface CheckpointStore {
+	get(): BulkUploadCheckpoint | undefined;
+	set(checkpoint: BulkUploadCheckpoint | undefined): Promise<void>;
+}
+
+type ResumeChoice = 'resume' | 'restart' | null;
+
+async function askResume(app: App, checkpoint: BulkUploadCheckpoint): Promise<ResumeChoice> {
+	return await new Promise<ResumeChoice>((resolve) => {
+		class ResumeModal extends Modal {
+			private result: ResumeChoice = null;
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: '继续上次的批量上传？' });
+				contentEl.createEl('p', { text: `范围：${checkpoint.folder || '整个库'}，开始于 ${new Date(checkpoint.startedAt).toLocaleString()}` });
+				contentEl.createEl('p', { text: `已完成 ${checkpoint.doneNotes.length} 篇笔记，已上传 ${Object.keys(checkpoint.uploaded).length} 张图片` });
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				row.createEl('button', { text: '继续', cls: 'mod-cta' }).addEventListener('click', () => { this.result = 'resume'; this.close(); });
+				row.createEl('button', { text: '重新开始' }).addEventListener('click', () => { this.result = 'restart'; this.close(); });
+				row.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+			}
+			onClose() { resolve(this.result); }
+		}
+		new ResumeModal(app).open();
+	});
+}
+
+function inFolder(file: TFile, folder: string): boolean {
+	return folder === '' || file.path.startsWith(folder + '/');
+}
+
+function collectNotes(app: App, checkpoint: BulkUploadCheckpoint): TFile[] {
+	return app.vault.getMarkdownFiles()
+		.filter(f => inFolder(f, checkpoint.folder))
+		.filter(f => checkpoint.include.length === 0 || matchesAnyGlob(f.path, checkpoint.include))
+		.filter(f => !matchesAnyGlob(f.path, checkpoint.exclude))
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * 上传整个库或某个文件夹中笔记引用的本地图片并更新链接。
+ * 同一个本地文件只上传一次，每上传一张就保存断点，中断后再次运行可以从断点继续。
+ */
+export async function bulkUploadLocalImages(app: App, folder: string, options: BulkUploadOptions, store: CheckpointStore, getUploader: (note: TFile) => Promise<CustomUploader | undefined>, journal?: RunJournal): Promise<void> {
+	let checkpoint = store.get();
+	if (checkpoint) {
+		const choice = await askResume(app, checkpoint);
+		if (!choice) return;
+		if (choice === 'restart') checkpoint = undefined;
+	}
+	if (!checkpoint) {
+		checkpoint = {
+			folder,
+			include: options.bulkUploadInclude.slice(),
+			exclude: options.bulkUploadExclude.slice(),
+			startedAt: Date.now(),
+			uploaded: {},
+			doneNotes: []
+		};
+	}
+	const cp = checkpoint;
+	await store.set(cp);
+
+	const done = new Set(cp.doneNotes);
+	const notes = collectNotes(app, cp);
+	const pending = notes.filter(f => !done.has(f.path));
+	if (pending.length === 0) {
+		await store.set(undefined);
+		new Notice('没有需要处理的笔记');
+		return;
+	}
+
+	// 预览时未勾选的笔记本次不处理，也不记为完成
+	let selected: Set<string> | null = null;
+	const planned = new Set<string>();
+	if (options.previewBeforeRun) {
+		const items = new Map<string, PlanItem>();
+		const changes: NoteChange[] = [];
+		for (const note of pending) {
+			const uploader = await getUploader(note);
+			if (!uploader) return;
+			const content = await app.vault.cachedRead(note);
+			const plan = uploader.planNoteUpload(note, content, uploader.extractLocalImagePaths(content));
+			plan.items.forEach(i => { if (!items.has(i.key)) items.set(i.key, i); });
+			if (plan.change) { changes.push(plan.change); planned.add(note.path); }
+		}
+		selected = await reviewPlan(app, { title: '批量上传预览', items: Array.from(items.values()), notes: changes });
+		if (!selected) return;
+	}
+
+	const recorder = new JournalRecorder(journal, 'bulk-upload', cp.folder || '整个库');
+	const uploaders = new Set<CustomUploader>();
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, '批量上传本地图片', () => queue.cancel());
+	progress.open();
+	progress.setProgress(notes.length - pending.length, notes.length);
+	let uploaded = 0; let reused = 0; let changedNotes = 0;
+	// 全部笔记处理完后再处理本地图片，此时其他笔记中的引用也已改写
+	const uploadedFiles: TFile[] = [];
+	const rewrittenNotes: TFile[] = [];
+	const summary: TransferSummary = { success: [], failed: [], skipped: [] };
+	for (const note of pending) {
+		if (queue.isCancelled) { summary.skipped.push(note.path); continue; }
+		if (selected && planned.has(note.path) && !selected.has(noteKey(note.path))) { progress.increment(note.basename); continue; }
+		const uploader = await getUploader(note);
+		if (!uploader) {
+			// 其余笔记都不处理，记为跳过以保留断点
+			pending.slice(pending.indexOf(note)).forEach(n => summary.skipped.push(n.path));
+			break;
+		}
+		uploaders.add(uploader);
+		const content = await app.vault.read(note);
+		let paths = uploader.extractLocalImagePaths(content);
+		if (selected) {
+			const keep = selected;
+			paths = paths.filter(p => { const file = uploader.findLocalImage(p, note); return !file || keep.has(file.path); });
+		}
+		const label = (p: string) => `${note.path}: ${p}`;
+		const results = await queue.run(paths, async (p) => {
+			const file = uploader.findLocalImage(p, note);
+			if (!file) throw new Error('找不到图片文件');
+			const key = `${uploader.targetKey}|${file.path}`;
+			const existing = cp.uploaded[key];
+			if (existing) { reused++; return existing; }
+			const url = await uploader.uploadImageFile(file, note);
+			cp.uploaded[key] = url;
+			uploaded++;
+			await store.set(cp);
+			return url;
+		}, (p, i, status, detail) => progress.setItemStatus(`${note.path}|${i}`, label(p), status, detail));
+
+		// 上传期间笔记可能被编辑，重新读取后再替换，避免覆盖用户的修改
+		const latest = await app.vault.read(note);
+		let updated = latest;
+		results.forEach(r => {
+			if (r.status !== 'success' || !r.value) return;
+			updated = uploader.replaceImageLink(updated, r.item, r.value, recorder.substitution(note.path));
+			const file = uploader.findLocalImage(r.item, note);
+			if (file) uploadedFiles.push(file);
+		});
+		if (updated !== latest) {
+			await app.vault.modify(note, updated);
+			rewrittenNotes.push(note);
+			changedNotes++;
+		}
+		const part = summarizeTransfers(results, label);
+		summary.failed.push(...part.failed);
+		summary.skipped.push(...part.skipped);
+		// 有失败或跳过的笔记不记为完成，继续时会重试
+		if (part.failed.length === 0 && part.skipped.length === 0) {
+			summary.success.push(note.path);
+			cp.doneNotes.push(note.path);
+			await store.set(cp);
+		}
+		progress.increment(note.basename);
+	}
+
+	if (summary.failed.length === 0 && summary.skipped.length === 0) await store.set(undefined);
+	uploaders.forEach(u => recorder.uploaded(u.uploadedImages));
+	const handled = await cleanupLocalFiles(app, uploadedFiles, rewrittenNotes, options, recorder);
+	await recorder.save();
+	progress.finish(summary);
+	const unfinished = summary.failed.length + summary.skipped.length;
+	new Notice(`批量上传${queue.isCancelled ? '已取消' : '完成'}：更新 ${changedNotes} 篇笔记，上传 ${uploaded} 张图片${reused ? `，复用 ${reused} 张` : ''}${handled ? `，已将 ${handled} 张本地图片${LOCAL_FILE_ACTION_TEXT[options.localFileAction]}` : ''}${unfinished ? '，未完成的部分可再次运行以继续' : ''}`);
+}
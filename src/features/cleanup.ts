@@ -1,21 +1,18 @@
 import {App, Modal, Notice} from 'obsidian';
-import {getServerOrigin, LskyClient, LskyImageItem} from '../api/lsky';
+import {LskyClient, LskyImageItem} from '../api/lsky';
+import {LskyProfile} from '../api/profiles';
 import {ProgressModal} from '../ui/progress';
+import {getImageHosts, UsedImageMatcher} from '../utils/url';
+import {TransferOptions, TransferQueue} from '../utils/queue';
+import {PreviewOptions, reviewPlan} from '../ui/review';
+import {UploadLedger} from './ledger';
+import {collectIndexedUrls, ImageUsageIndex} from './usage-index';
+import {backupImage, QuarantineEntry, QuarantineList, QuarantineOptions, quarantineEntry, removeBackup} from './quarantine';
 
-export async function collectUsedImageUrls(app: App, serverOrigin: string): Promise<string[]> {
-	const files = app.vault.getMarkdownFiles();
-	const set = new Set<string>();
-	for (const f of files) {
-		const content = await app.vault.read(f);
-		const md = content.match(/!\[.*?\]\((https?:\/\/[^\s)]+)\)/g) || [];
-		const html = content.match(/<img[^>]+src="(https?:\/\/[^">]+)"/g) || [];
-		const wiki = content.match(/!\[\[(https?:\/\/[^\]]+)\]\]/g) || [];
-		[...md, ...html, ...wiki].forEach(s => {
-			const url = s.replace(/!\[.*?\]\(|\)|<img[^>]+src="|"|!\[\[|\]\]/g, '');
-			if (url && url.startsWith(serverOrigin)) set.add(url);
-		});
-	}
-	return Array.from(set);
+export type CleanupMode = 'delete' | 'quarantine';
+
+export interface CleanupOptions extends QuarantineOptions, TransferOptions, PreviewOptions {
+	cleanupMode: CleanupMode;
 }
 
 export async function confirmCleanup(app: App, unused: LskyImageItem[], total: number): Promise<boolean> {
@@ -45,47 +42,159 @@ export async function confirmCleanup(app: App, unused: LskyImageItem[], total: n
 	});
 }
 
-export async function showCleanupResult(app: App, success: string[], failed: string[]) {
+export async function showCleanupResult(app: App, success: string[], failed: string[], skipped: string[] = []) {
 	class ResultModal extends Modal {
-		private success: string[]; private failed: string[];
-		constructor() { super(app); this.success = success; this.failed = failed; }
+		private success: string[]; private failed: string[]; private skipped: string[];
+		constructor() { super(app); this.success = success; this.failed = failed; this.skipped = skipped; }
 		onOpen() {
 			const { contentEl } = this;
 			contentEl.empty();
 			contentEl.createEl('h2', { text: '清理结果' });
-			contentEl.createEl('p', { text: `成功删除 ${this.success.length} 个，失败 ${this.failed.length} 个` });
-			if (this.success.length) { contentEl.createEl('h3', { text: '已删除：' }); this.success.forEach(u => contentEl.createEl('div', { text: u })); }
+			contentEl.createEl('p', { text: `成功删除 ${this.success.length} 个，失败 ${this.failed.length} 个${this.skipped.length ? `，取消后跳过 ${this.skipped.length} 个` : ''}` });
 			if (this.failed.length) { contentEl.createEl('h3', { text: '失败：' }); this.failed.forEach(u => contentEl.createEl('div', { text: u })); }
+			if (this.skipped.length) { contentEl.createEl('h3', { text: '已跳过：' }); this.skipped.forEach(u => contentEl.createEl('div', { text: u })); }
+			if (this.success.length) { contentEl.createEl('h3', { text: '已删除：' }); this.success.forEach(u => contentEl.createEl('div', { text: u })); }
 		}
 		shouldCloseOnClickOutside() { return false; }
 	}
 	new ResultModal().open();
 }
 
-export async function cleanupUnusedImages(app: App, client: LskyClient, serverUrl: string): Promise<void> {
-	const origin = getServerOrigin(serverUrl);
-	if (!origin) { new Notice('无效的服务器地址'); return; }
-	new Notice('开始扫描未使用的图片...');
-	const [used, all] = await Promise.all([
-		collectUsedImageUrls(app, origin),
-		client.listAllImages()
-	]);
-    const toDelete = all.filter((img: LskyImageItem) => !used.includes(img.links.url));
-	if (toDelete.length === 0) { new Notice('没有发现未使用的图片'); return; }
-	const confirmed = await confirmCleanup(app, toDelete, all.length);
-	if (!confirmed) { new Notice('操作已取消'); return; }
-    const success: string[] = []; const failed: string[] = [];
-    const progress = new ProgressModal(app, '清理未被引用的图片');
-    progress.open();
-    progress.setTotal(toDelete.length);
-    for (const img of toDelete) {
-        try { await client.deleteImageByKey(img.key); success.push(img.links.url); }
-        catch { failed.push(img.links.url); }
-        progress.increment(img.name || img.links.url);
-        await new Promise(r => setTimeout(r, 150));
-    }
-    progress.close();
-	await showCleanupResult(app, success, failed);
+export async function confirmQuarantine(app: App, toQuarantine: LskyImageItem[], due: QuarantineEntry[], days: number): Promise<boolean> {
+	return await new Promise<boolean>((resolve) => {
+		class ConfirmModal extends Modal {
+			constructor() { super(app); }
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: '确认隔离未使用图片' });
+				contentEl.createEl('p', { text: `新发现未使用的图片：${toQuarantine.length}，将移入隔离区，${days} 天后仍未被引用时删除` });
+				toQuarantine.slice(0, 20).forEach(img => contentEl.createEl('div', { text: img.links.url }));
+				if (toQuarantine.length > 20) contentEl.createEl('p', { text: `…… 还有 ${toQuarantine.length - 20} 个未列出` });
+				if (due.length > 0) {
+					contentEl.createEl('h3', { text: `隔离期已满、将从图床删除：${due.length}` });
+					due.slice(0, 20).forEach(e => contentEl.createEl('div', { text: e.url }));
+					if (due.length > 20) contentEl.createEl('p', { text: `…… 还有 ${due.length - 20} 个未列出` });
+				}
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				const confirmBtn = row.createEl('button', { text: '确认' });
+				confirmBtn.addEventListener('click', () => { resolve(true); this.close(); });
+				const cancelBtn = row.createEl('button', { text: '取消' });
+				cancelBtn.addEventListener('click', () => { resolve(false); this.close(); });
+			}
+			shouldCloseOnClickOutside() { return false; }
+		}
+		new ConfirmModal().open();
+	});
+}
+
+async function deleteImages(app: App, client: LskyClient, images: { key: string; url: string; name?: string }[], options: TransferOptions): Promise<{ success: string[]; failed: string[]; skipped: string[]; deletedKeys: string[] }> {
+	const success: string[] = []; const failed: string[] = []; const skipped: string[] = []; const deletedKeys: string[] = [];
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, '清理未被引用的图片', () => queue.cancel());
+	progress.open();
+	progress.setTotal(images.length);
+	const results = await queue.run(images, img => client.deleteImageByKey(img.key), (img, i, status, detail) => {
+		progress.setItemStatus(String(i), img.name || img.url, status, detail);
+		if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment(img.name || img.url);
+	});
+	results.forEach(r => {
+		if (r.status === 'success') { success.push(r.item.url); deletedKeys.push(r.item.key); }
+		else if (r.status === 'failed') failed.push(r.item.url);
+		else skipped.push(r.item.url);
+	});
+	progress.close();
+	return { success, failed, skipped, deletedKeys };
+}
+
+async function quarantineUnusedImages(app: App, client: LskyClient, all: LskyImageItem[], unused: LskyImageItem[], options: CleanupOptions, quarantine: QuarantineList, ledger?: UploadLedger): Promise<void> {
+	const profileId = client.profileId;
+	const unusedKeys = new Set(unused.map(img => img.key));
+	const remoteKeys = new Set(all.map(img => img.key));
+	// 已在别处被删除的图片视为已删除，保留记录以便恢复
+	const vanished = quarantine.pending(profileId).filter(e => !remoteKeys.has(e.key));
+	if (vanished.length) await quarantine.markDeleted(vanished.map(e => e.key), profileId);
+	// 重新被引用的图片移出隔离区
+	const released = quarantine.pending(profileId).filter(e => !unusedKeys.has(e.key));
+	if (released.length) {
+		await quarantine.remove(released.map(e => e.key), profileId);
+		for (const e of released) await removeBackup(app, e);
+	}
+	let due = quarantine.pending(profileId).filter(e => quarantine.isDue(e, options.quarantineDays));
+	let fresh = unused.filter(img => !quarantine.has(img.key, profileId));
+	if (fresh.length === 0 && due.length === 0) { new Notice(`没有新的未使用图片，隔离区中 ${quarantine.pending(profileId).length} 张尚未到期`); return; }
+	if (options.previewBeforeRun) {
+		const selected = await reviewPlan(app, {
+			title: '隔离预览',
+			items: [
+				...fresh.map(img => ({ key: img.key, action: 'quarantine' as const, label: img.links.url, detail: img.name })),
+				...due.map(e => ({ key: e.key, action: 'delete' as const, label: e.url, detail: `隔离于 ${new Date(e.quarantinedAt).toLocaleDateString()}` }))
+			],
+			notes: []
+		});
+		if (!selected) { new Notice('操作已取消'); return; }
+		fresh = fresh.filter(img => selected.has(img.key));
+		due = due.filter(e => selected.has(e.key));
+	} else {
+		const confirmed = await confirmQuarantine(app, fresh, due, options.quarantineDays);
+		if (!confirmed) { new Notice('操作已取消'); return; }
+	}
+
+	if (fresh.length) {
+		const folder = options.quarantineBackupFolder.trim();
+		const queue = new TransferQueue(options);
+		const progress = new ProgressModal(app, '隔离未使用的图片', () => queue.cancel());
+		progress.open();
+		progress.setTotal(fresh.length);
+		const results = await queue.run(fresh, async img => quarantineEntry(img, profileId, folder ? await backupImage(app, img, folder) : undefined), (img, i, status, detail) => {
+			progress.setItemStatus(String(i), img.name || img.links.url, status, detail);
+			if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment(img.name || img.links.url);
+		});
+		progress.close();
+		// 备份失败或被跳过的图片不进入隔离区，下次清理时重试
+		const entries = results.filter(r => r.status === 'success' && r.value).map(r => r.value as QuarantineEntry);
+		await quarantine.add(entries);
+		const failed = results.filter(r => r.status === 'failed').length;
+		new Notice(`已隔离 ${entries.length} 张图片${failed ? `，${failed} 张备份失败` : ''}${queue.isCancelled ? '，其余已取消' : ''}`);
+		if (queue.isCancelled) return;
+	}
+
+	if (due.length) {
+		const { success, failed, skipped, deletedKeys } = await deleteImages(app, client, due.map(e => ({ key: e.key, url: e.url, name: e.name })), options);
+		await quarantine.markDeleted(deletedKeys, profileId);
+		if (ledger) await ledger.removeByKeys(deletedKeys, profileId);
+		await showCleanupResult(app, success, failed, skipped);
+	}
+}
+
+export async function cleanupUnusedImages(app: App, client: LskyClient, profile: LskyProfile, options: CleanupOptions, quarantine: QuarantineList, index: ImageUsageIndex, ledger?: UploadLedger): Promise<void> {
+	const hosts = getImageHosts(profile.serverUrl, profile.imageDomains);
+	if (hosts.length === 0) { new Notice(`无效的服务器地址：${profile.name}`); return; }
+	new Notice(`开始扫描未使用的图片（${profile.name}）...`);
+	const all = await client.listAllImages();
+	const used = new UsedImageMatcher(await collectIndexedUrls(index, getImageHosts(profile.serverUrl, profile.imageDomains, all)));
+    const unused = all.filter((img: LskyImageItem) => !used.isUsed(img));
+	if (options.cleanupMode === 'quarantine') {
+		await quarantineUnusedImages(app, client, all, unused, options, quarantine, ledger);
+		return;
+	}
+	if (unused.length === 0) { new Notice('没有发现未使用的图片'); return; }
+	let toDelete = unused;
+	if (options.previewBeforeRun) {
+		const selected = await reviewPlan(app, {
+			title: `清理预览（图床共 ${all.length} 张）`,
+			items: unused.map(img => ({ key: img.key, action: 'delete' as const, label: img.links.url, detail: img.name })),
+			notes: []
+		});
+		if (!selected) { new Notice('操作已取消'); return; }
+		toDelete = unused.filter(img => selected.has(img.key));
+	} else {
+		const confirmed = await confirmCleanup(app, unused, all.length);
+		if (!confirmed) { new Notice('操作已取消'); return; }
+	}
+	const { success, failed, skipped, deletedKeys } = await deleteImages(app, client, toDelete.map(img => ({ key: img.key, url: img.links.url, name: img.name })), options);
+	if (ledger) await ledger.removeByKeys(deletedKeys, profile.id);
+	await showCleanupResult(app, success, failed, skipped);
 }
 
 
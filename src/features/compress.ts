@@ -0,0 +1,87 @@
+export type CompressFormat = 'original' | 'webp' | 'jpeg';
+
+export interface CompressOptions {
+	compressImages: boolean;
+	compressFormat: CompressFormat;
+	/** 1-100 */
+	compressQuality: number;
+	/** 0 表示不限制 */
+	compressMaxWidth: number;
+	compressMaxHeight: number;
+}
+
+export interface ProcessedImage {
+	binary: ArrayBuffer;
+	name: string;
+	mimeType: string;
+	originalSize: number;
+	size: number;
+}
+
+// 动图和矢量图经过 canvas 会丢失动画或变成位图，始终原样上传
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+const FORMAT_MIME: Record<Exclude<CompressFormat, 'original'>, { mime: string; ext: string }> = {
+	webp: { mime: 'image/webp', ext: 'webp' },
+	jpeg: { mime: 'image/jpeg', ext: 'jpg' }
+};
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function fitSize(width: number, height: number, maxWidth: number, maxHeight: number): { width: number; height: number } {
+	let scale = 1;
+	if (maxWidth > 0 && width > maxWidth) scale = Math.min(scale, maxWidth / width);
+	if (maxHeight > 0 && height > maxHeight) scale = Math.min(scale, maxHeight / height);
+	return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片编码失败')), mimeType, quality);
+	});
+}
+
+function replaceExtension(name: string, ext: string): string {
+	const idx = name.lastIndexOf('.');
+	return `${idx > 0 ? name.substring(0, idx) : name}.${ext}`;
+}
+
+/**
+ * 按设置转换格式、限制尺寸。无需处理或处理后反而更大时返回原图。
+ */
+export async function processImage(binary: ArrayBuffer, name: string, mimeType: string, options: CompressOptions): Promise<ProcessedImage> {
+	const original: ProcessedImage = { binary, name, mimeType, originalSize: binary.byteLength, size: binary.byteLength };
+	if (!options.compressImages || !mimeType.startsWith('image/') || SKIPPED_TYPES.includes(mimeType)) return original;
+
+	const bitmap = await createImageBitmap(new Blob([binary], { type: mimeType }));
+	try {
+		const size = fitSize(bitmap.width, bitmap.height, options.compressMaxWidth, options.compressMaxHeight);
+		const resized = size.width !== bitmap.width || size.height !== bitmap.height;
+		const target = options.compressFormat === 'original' ? null : FORMAT_MIME[options.compressFormat];
+		if (!resized && (!target || target.mime === mimeType)) return original;
+
+		const canvas = document.createElement('canvas');
+		canvas.width = size.width;
+		canvas.height = size.height;
+		const ctx = canvas.getContext('2d');
+		if (!ctx) return original;
+		const outMime = target ? target.mime : mimeType;
+		if (outMime === 'image/jpeg') {
+			// JPEG 没有透明通道，先铺白底
+			ctx.fillStyle = '#fff';
+			ctx.fillRect(0, 0, size.width, size.height);
+		}
+		ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+		const blob = await canvasToBlob(canvas, outMime, Math.min(100, Math.max(1, options.compressQuality)) / 100);
+		// 浏览器不支持目标格式时会退回 PNG
+		if (!resized && blob.size >= binary.byteLength) return original;
+		const out = await blob.arrayBuffer();
+		const ext = target && blob.type === target.mime ? target.ext : (blob.type.split('/').pop() || 'png');
+		return { binary: out, name: replaceExtension(name, ext), mimeType: blob.type || outMime, originalSize: binary.byteLength, size: out.byteLength };
+	} finally {
+		bitmap.close();
+	}
+}
@@ -1,118 +1,280 @@
-import {App, Notice, requestUrl, TFile} from 'obsidian';
+import {App, moment, normalizePath, Notice, requestUrl, TFile} from 'obsidian';
 import {ProgressModal} from '../ui/progress';
-import {getServerOrigin} from '../api/lsky';
+import {DEFAULT_TRANSFER_OPTIONS, SkipTransferError, summarizeTransfers, TransferOptions, TransferQueue, TransferResult, TransferStatusListener, TransferSummary} from '../utils/queue';
+import {matchesDomain, matchesImageHost} from '../utils/url';
+import {extractImageReferences, hasImageExtension, isRemoteTarget, replaceImageReferences} from '../utils/references';
+import {formatImageLink, LinkOptions, LinkStyle, relativeLinkPath} from '../utils/links';
+import {diffLines, NoteChange, noteKey, PlanItem, PreviewOptions, ReviewPlan, reviewPlan} from '../ui/review';
+import {hashBinary} from './ledger';
+import {JournalRecorder, RunJournal} from './journal';
+import {markOwnFile} from './auto-upload';
 
-function extractRemoteImageUrls(content: string, origin: string): string[] {
+/** lsky：只下载图床域名下的图片；any：下载所有远程图片 */
+export type DownloadScope = 'lsky' | 'any';
+
+export interface DownloadOptions extends TransferOptions, LinkOptions, PreviewOptions {
+	/** 保存目录模板，支持 {{vault_attachment_folder}}、{{note_folder}}、{{note}}、{{date}} */
+	downloadPathTemplate: string;
+	downloadScope: DownloadScope;
+	/** 非空时只下载这些域名（含子域名）下的图片 */
+	downloadAllowDomains: string[];
+	/** 始终不下载的域名（含子域名） */
+	downloadDenyDomains: string[];
+}
+
+const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+	...DEFAULT_TRANSFER_OPTIONS,
+	linkStyle: 'keep',
+	previewBeforeRun: false,
+	downloadPathTemplate: '{{vault_attachment_folder}}',
+	downloadScope: 'lsky',
+	downloadAllowDomains: [],
+	downloadDenyDomains: []
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/jpg': 'jpg',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/bmp': 'bmp',
+	'image/svg+xml': 'svg',
+	'image/x-icon': 'ico',
+	'image/vnd.microsoft.icon': 'ico',
+	'image/avif': 'avif'
+};
+
+function isDownloadTarget(url: string, hosts: string[], options: DownloadOptions): boolean {
+	if (options.downloadScope === 'any' ? !isRemoteTarget(url) : !matchesImageHost(url, hosts)) return false;
+	if (options.downloadAllowDomains.length && !matchesDomain(url, options.downloadAllowDomains)) return false;
+	return !matchesDomain(url, options.downloadDenyDomains);
+}
+
+function extractRemoteImageUrls(content: string, hosts: string[], options: DownloadOptions): string[] {
 	const set = new Set<string>();
-	const md = content.match(/!\[.*?\]\((https?:\/\/[^\s)]+)\)/g) || [];
-	const html = content.match(/<img[^>]+src="(https?:\/\/[^">]+)"/g) || [];
-	const wiki = content.match(/!\[\[(https?:\/\/[^\]]+)\]\]/g) || [];
-	[...md, ...html, ...wiki].forEach(s => {
-		const url = s.replace(/!\[.*?\]\(|\)|<img[^>]+src="|"|!\[\[|\]\]/g, '');
-		if (url && url.startsWith(origin)) set.add(url);
-	});
+	extractImageReferences(content).forEach(ref => { if (isDownloadTarget(ref.target, hosts, options)) set.add(ref.target); });
 	return Array.from(set);
 }
 
+function nothingToDownload(options: DownloadOptions): string {
+	return options.downloadScope === 'any' ? '未发现需下载的远程图片' : '未发现需下载的图床图片';
+}
+
+function absoluteUrl(url: string): string {
+	return url.startsWith('//') ? 'https:' + url : url;
+}
+
 function fileNameFromUrl(url: string): string {
 	try {
-		const u = new URL(url);
-		const name = u.pathname.split('/').pop() || 'image';
+		const u = new URL(absoluteUrl(url));
+		let name = u.pathname.split('/').pop() || 'image';
 		// Decode URL-encoded characters like %E8%99%9A to Chinese characters
-		return decodeURIComponent(name);
+		try { name = decodeURIComponent(name); } catch { /* empty */ }
+		// 去掉库中文件名不允许的字符
+		return name.replace(/[\\/:*?"<>|#^[\]]/g, '_') || 'image';
 	} catch { return 'image'; }
 }
 
-function replaceUrlWithRelative(content: string, url: string, fileName: string): string {
-    const escaped = url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    // Use just the filename without path, as requested
-    content = content.replace(new RegExp(`!\\[.*?\\]\\(${escaped}\\)`, 'g'), `![[${fileName}]]`);
-    content = content.replace(new RegExp(`<img[^>]+src="${escaped}"[^>]*>`, 'g'), `![[${fileName}]]`);
-    content = content.replace(new RegExp(`!\\[\\[${escaped}\\]\\]`, 'g'), `![[${fileName}]]`);
-    return content;
+/** Obsidian「附件默认存放路径」设置下该笔记的附件目录，由 Obsidian 按设置解析 */
+async function vaultAttachmentFolder(app: App, note: TFile): Promise<string> {
+	const path = await app.fileManager.getAvailablePathForAttachment('image.png', note.path);
+	return path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+}
+
+export async function resolveDownloadFolder(app: App, note: TFile, template: string): Promise<string> {
+	const pattern = template.trim() || DEFAULT_DOWNLOAD_OPTIONS.downloadPathTemplate;
+	const vars: Record<string, string> = {
+		vault_attachment_folder: /\{\{\s*vault_attachment_folder\s*\}\}/.test(pattern) ? await vaultAttachmentFolder(app, note) : '',
+		note_folder: note.parent && !note.parent.isRoot() ? note.parent.path : '',
+		note: note.basename,
+		date: moment().format('YYYY-MM-DD')
+	};
+	const path = pattern.replace(/\{\{\s*(\w+)\s*\}\}/g, (m, key: string) => key in vars ? vars[key] : m);
+	const folder = normalizePath(path);
+	return folder === '/' ? '' : folder;
+}
+
+function replaceUrlWithLocal(content: string, url: string, note: TFile, filePath: string, style: LinkStyle, onReplace?: (before: string, after: string) => void): string {
+	const refs = extractImageReferences(content).filter(r => r.target === url);
+	const target = { href: relativeLinkPath(note.path, filePath), wikiPath: filePath };
+	return replaceImageReferences(content, refs, ref => formatImageLink(content, ref, target, style), onReplace);
 }
 
 async function ensureFolder(app: App, path: string) {
+	if (!path) return;
 	const exists = app.vault.getAbstractFileByPath(path);
 	if (!exists) await app.vault.createFolder(path);
 }
 
-async function downloadToBinary(url: string): Promise<ArrayBuffer> {
-    const res = await requestUrl({ url, method: 'GET' });
-    return res.arrayBuffer;
+/** 按文件头识别常见图片格式，用于没有或返回了错误 Content-Type 的服务器 */
+function sniffImageType(binary: ArrayBuffer): string | null {
+	const b = new Uint8Array(binary.slice(0, 16));
+	const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(b.subarray(start, end)));
+	if (b[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+	if (b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return 'image/jpeg';
+	if (ascii(0, 4) === 'GIF8') return 'image/gif';
+	if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+	if (ascii(0, 2) === 'BM') return 'image/bmp';
+	if (ascii(4, 8) === 'ftyp' && ascii(8, 12).startsWith('avi')) return 'image/avif';
+	if (b[0] === 0 && b[1] === 0 && b[2] === 1 && b[3] === 0) return 'image/x-icon';
+	return null;
 }
 
-export async function downloadImagesForCurrentNote(app: App, serverUrl: string): Promise<void> {
-	const origin = getServerOrigin(serverUrl);
-	if (!origin) { new Notice('无效的服务器地址'); return; }
-	const file = app.workspace.getActiveFile();
-	if (!file) { new Notice('没有活动的笔记'); return; }
-	const content = await app.vault.read(file);
-	const urls = extractRemoteImageUrls(content, origin);
-	if (urls.length === 0) { new Notice('未发现需下载的图床图片'); return; }
-	const folder = `${file.parent ? file.parent.path + '/' : ''}${file.basename}`;
-	await ensureFolder(app, folder);
-    let updated = content;
-    const progress = new ProgressModal(app, '下载当前笔记图片');
-    progress.open();
-    progress.setTotal(urls.length);
-    for (const url of urls) {
-		try {
-			const bin = await downloadToBinary(url);
-			const name = fileNameFromUrl(url);
-			const target = `${folder}/${name}`;
-			const exists = app.vault.getAbstractFileByPath(target);
-			if (exists instanceof TFile) {
-				await app.vault.modifyBinary(exists, bin);
-			} else {
-				await app.vault.createBinary(target, bin);
-			}
-			updated = replaceUrlWithRelative(updated, url, name);
-            progress.increment(name);
-		} catch (e) {
-			new Notice(`下载失败：${url}`);
-            progress.increment('失败');
+/**
+ * 下载并确认内容是图片：优先看 Content-Type，其次看文件头，SVG 只能按 Content-Type 或扩展名判断。
+ * 不是图片（例如防盗链返回的网页）时抛出 SkipTransferError，该项记为跳过。
+ */
+export async function downloadToBinary(url: string): Promise<{ binary: ArrayBuffer; contentType: string }> {
+	const res = await requestUrl({ url: absoluteUrl(url), method: 'GET' });
+	const header = Object.entries(res.headers || {}).find(([k]) => k.toLowerCase() === 'content-type')?.[1] || '';
+	const declared = header.split(';')[0].trim().toLowerCase();
+	if (declared.startsWith('image/')) return { binary: res.arrayBuffer, contentType: declared };
+	const sniffed = sniffImageType(res.arrayBuffer);
+	if (sniffed) return { binary: res.arrayBuffer, contentType: sniffed };
+	if (hasImageExtension(url) && (!declared || declared === 'application/octet-stream')) return { binary: res.arrayBuffer, contentType: '' };
+	throw new SkipTransferError(`不是图片（${declared || '未知类型'}）`);
+}
+
+/** 链接中没有图片扩展名时按 Content-Type 补上 */
+export function fileNameFor(url: string, contentType: string): string {
+	const name = fileNameFromUrl(url);
+	if (hasImageExtension(name)) return name;
+	const ext = MIME_EXTENSIONS[contentType];
+	return ext ? `${name}.${ext}` : name;
+}
+
+/**
+ * 同名文件内容相同（按哈希比对）时直接复用，不同时依次尝试 name-1.ext、name-2.ext……，不会覆盖已有文件。
+ */
+async function writeUnique(app: App, folder: string, name: string, binary: ArrayBuffer): Promise<{ file: TFile; created: boolean }> {
+	const dot = name.lastIndexOf('.');
+	const base = dot > 0 ? name.substring(0, dot) : name;
+	const ext = dot > 0 ? name.substring(dot) : '';
+	let hash: string | undefined;
+	for (let i = 0; ; i++) {
+		const path = normalizePath(`${folder ? folder + '/' : ''}${i === 0 ? name : `${base}-${i}${ext}`}`);
+		const existing = app.vault.getAbstractFileByPath(path);
+		if (!existing) {
+			markOwnFile(path);
+			return { file: await app.vault.createBinary(path, binary), created: true };
 		}
+		if (!(existing instanceof TFile)) continue;
+		hash = hash ?? await hashBinary(binary);
+		if (await hashBinary(await app.vault.readBinary(existing)) === hash) return { file: existing, created: false };
 	}
-    progress.close();
-	await app.vault.modify(file, updated);
-	new Notice(`下载完成：${urls.length} 张图片`);
-}
-
-export async function downloadImagesForAllNotes(app: App, serverUrl: string): Promise<void> {
-	const origin = getServerOrigin(serverUrl);
-	if (!origin) { new Notice('无效的服务器地址'); return; }
-	const files = app.vault.getMarkdownFiles();
-	let total = 0;
-    const progress = new ProgressModal(app, '下载所有笔记图片');
-    progress.open();
-    progress.setTotal(files.length);
-    for (const f of files) {
-		let content = await app.vault.read(f);
-		const urls = extractRemoteImageUrls(content, origin);
-		if (urls.length === 0) continue;
-		const folder = `${f.parent ? f.parent.path + '/' : ''}${f.basename}`;
+}
+
+// 并发下载时写文件需要串行，否则两张同名图片可能选中同一个文件名
+let writeChain: Promise<unknown> = Promise.resolve();
+
+async function saveImage(app: App, folder: string, url: string, recorder: JournalRecorder): Promise<TFile> {
+	const { binary, contentType } = await downloadToBinary(url);
+	const write = writeChain.then(async () => {
 		await ensureFolder(app, folder);
+		const { file, created } = await writeUnique(app, folder, fileNameFor(url, contentType), binary);
+		if (created) recorder.createdFile(file.path);
+		return file;
+	});
+	writeChain = write.catch(() => undefined);
+	return write;
+}
+
+async function downloadNoteImages(app: App, file: TFile, urls: string[], options: DownloadOptions, queue: TransferQueue, recorder: JournalRecorder, onStatus: TransferStatusListener<string>, rewrite = true): Promise<TransferResult<string, TFile>[]> {
+	const folder = await resolveDownloadFolder(app, file, options.downloadPathTemplate);
+	const results = await queue.run(urls, url => saveImage(app, folder, url, recorder), onStatus);
+	if (!rewrite) return results;
+	let content = await app.vault.read(file);
+	const before = content;
+	results.forEach(r => { if (r.status === 'success' && r.value) content = replaceUrlWithLocal(content, r.item, file, r.value.path, options.linkStyle, recorder.substitution(file.path)); });
+	if (content !== before) await app.vault.modify(file, content);
+	return results;
+}
+
+/** 预览计划。实际文件名要下载后按内容去重才能确定，这里显示的是预计路径 */
+async function planDownloads(app: App, notes: { file: TFile; content: string; urls: string[] }[], options: DownloadOptions, title: string): Promise<ReviewPlan> {
+	const items = new Map<string, PlanItem>();
+	const changes: NoteChange[] = [];
+	for (const { file, content, urls } of notes) {
+		const folder = await resolveDownloadFolder(app, file, options.downloadPathTemplate);
+		let after = content;
 		for (const url of urls) {
-			try {
-				const bin = await downloadToBinary(url);
-				const name = fileNameFromUrl(url);
-				const target = `${folder}/${name}`;
-				const exists = app.vault.getAbstractFileByPath(target);
-				if (exists instanceof TFile) {
-					await app.vault.modifyBinary(exists, bin);
-				} else {
-					await app.vault.createBinary(target, bin);
-				}
-				content = replaceUrlWithRelative(content, url, name);
-				total++;
-			} catch { /* empty */ }
+			const path = normalizePath(`${folder ? folder + '/' : ''}${fileNameFromUrl(url)}`);
+			if (!items.has(url)) items.set(url, { key: url, action: 'download', label: url, detail: `→ ${path}` });
+			after = replaceUrlWithLocal(after, url, file, path, options.linkStyle);
 		}
-		await app.vault.modify(f, content);
-        progress.increment(f.basename);
+		const lines = diffLines(content, after);
+		if (lines.length) changes.push({ path: file.path, lines });
 	}
-    progress.close();
-	new Notice(`全部下载完成：${total} 张图片`);
+	return { title, items: Array.from(items.values()), notes: changes };
 }
 
+export async function downloadImagesForCurrentNote(app: App, hosts: string[], options: DownloadOptions = DEFAULT_DOWNLOAD_OPTIONS, journal?: RunJournal): Promise<void> {
+	if (options.downloadScope !== 'any' && hosts.length === 0) { new Notice('无效的服务器地址'); return; }
+	const file = app.workspace.getActiveFile();
+	if (!file) { new Notice('没有活动的笔记'); return; }
+	const content = await app.vault.read(file);
+	let urls = extractRemoteImageUrls(content, hosts, options);
+	if (urls.length === 0) { new Notice(nothingToDownload(options)); return; }
+	let rewrite = true;
+	if (options.previewBeforeRun) {
+		const selected = await reviewPlan(app, await planDownloads(app, [{ file, content, urls }], options, '下载预览'));
+		if (!selected) return;
+		rewrite = selected.has(noteKey(file.path));
+		urls = urls.filter(u => selected.has(u));
+		if (urls.length === 0) return;
+	}
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, '下载当前笔记图片', () => queue.cancel());
+	progress.open();
+	progress.setTotal(urls.length);
+	const recorder = new JournalRecorder(journal, 'download', file.path);
+	const results = await downloadNoteImages(app, file, urls, options, queue, recorder, (url, i, status, detail) => {
+		progress.setItemStatus(String(i), url, status, detail);
+		if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment(fileNameFromUrl(url));
+	}, rewrite);
+	await recorder.save();
+	progress.finish(summarizeTransfers(results, url => url));
+	new Notice(`下载${queue.isCancelled ? '已取消' : '完成'}：${results.filter(r => r.status === 'success').length}/${urls.length} 张图片`);
+}
 
+export async function downloadImagesForAllNotes(app: App, hosts: string[], options: DownloadOptions = DEFAULT_DOWNLOAD_OPTIONS, journal?: RunJournal): Promise<void> {
+	if (options.downloadScope !== 'any' && hosts.length === 0) { new Notice('无效的服务器地址'); return; }
+	let files = app.vault.getMarkdownFiles();
+	// 预览时未勾选的笔记整篇跳过，未勾选的图片不下载
+	let selected: Set<string> | null = null;
+	if (options.previewBeforeRun) {
+		const notes: { file: TFile; content: string; urls: string[] }[] = [];
+		for (const file of files) {
+			const content = await app.vault.cachedRead(file);
+			const urls = extractRemoteImageUrls(content, hosts, options);
+			if (urls.length) notes.push({ file, content, urls });
+		}
+		if (notes.length === 0) { new Notice(nothingToDownload(options)); return; }
+		selected = await reviewPlan(app, await planDownloads(app, notes, options, '下载所有笔记图片预览'));
+		if (!selected) return;
+		const keep = selected;
+		files = notes.map(n => n.file).filter(f => keep.has(noteKey(f.path)));
+	}
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, '下载所有笔记图片', () => queue.cancel());
+	progress.open();
+	progress.setTotal(files.length);
+	const summary: TransferSummary = { success: [], failed: [], skipped: [] };
+	const recorder = new JournalRecorder(journal, 'download', '所有笔记');
+	for (const f of files) {
+		if (queue.isCancelled) break;
+		let urls = extractRemoteImageUrls(await app.vault.read(f), hosts, options);
+		if (selected) { const keep = selected; urls = urls.filter(u => keep.has(u)); }
+		if (urls.length > 0) {
+			const part = summarizeTransfers(await downloadNoteImages(app, f, urls, options, queue, recorder, (url, i, status, detail) => progress.setItemStatus(`${f.path}|${i}`, url, status, detail)), url => `${f.path}: ${url}`);
+			summary.success.push(...part.success);
+			summary.failed.push(...part.failed);
+			summary.skipped.push(...part.skipped);
+		}
+		progress.increment(f.basename);
+	}
+	await recorder.save();
+	progress.finish(summary);
+	new Notice(`全部下载${queue.isCancelled ? '已取消' : '完成'}：${summary.success.length} 张图片`);
+}
@@ -0,0 +1,256 @@
+import {App, ItemView, MarkdownView, Menu, Modal, Notice, WorkspaceLeaf} from 'obsidian';
+import {LskyClient, LskyImageItem} from '../api/lsky';
+import {LskyProfile} from '../api/profiles';
+import {ProgressModal} from '../ui/progress';
+import {summarizeTransfers, TransferOptions, TransferQueue} from '../utils/queue';
+import {formatImageLink, LinkOptions} from '../utils/links';
+import {extractImageReferences} from '../utils/references';
+import {UploadLedger} from './ledger';
+import {ImageUsageIndex, imageUsage} from './usage-index';
+
+export const GALLERY_VIEW_TYPE = 'lsky-gallery';
+
+const PAGE_SIZE = 40;
+
+/** 图库视图需要的插件能力，由 main.ts 提供 */
+export interface GalleryContext {
+	profiles(): LskyProfile[];
+	defaultProfileId(): string;
+	getClient(profile: LskyProfile): Promise<LskyClient>;
+	options(): TransferOptions & LinkOptions;
+	index: ImageUsageIndex;
+	ledger?: UploadLedger;
+}
+
+async function confirmDelete(app: App, images: LskyImageItem[], usage: Map<string, string[]>): Promise<boolean> {
+	return await new Promise<boolean>((resolve) => {
+		class ConfirmModal extends Modal {
+			private confirmed = false;
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: `从图床删除 ${images.length} 张图片` });
+				const used = images.filter(img => usage.get(img.key)?.length);
+				if (used.length) contentEl.createEl('p', { cls: 'mod-warning', text: `其中 ${used.length} 张仍被笔记引用，删除后这些笔记中的图片将无法显示` });
+				images.slice(0, 20).forEach(img => contentEl.createEl('div', { text: img.origin_name || img.name }));
+				if (images.length > 20) contentEl.createEl('p', { text: `…… 还有 ${images.length - 20} 张未列出` });
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				row.createEl('button', { text: '删除', cls: 'mod-warning' }).addEventListener('click', () => { this.confirmed = true; this.close(); });
+				row.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+			}
+			onClose() { resolve(this.confirmed); }
+		}
+		new ConfirmModal(app).open();
+	});
+}
+
+/**
+ * 侧边栏图库：分页浏览图床上的全部图片，可按名称与日期筛选，点击插入到编辑器光标处，
+ * 显示每张图片被哪些笔记引用，支持单张或多选删除。
+ */
+export class LskyGalleryView extends ItemView {
+	private context: GalleryContext;
+	private profileId = '';
+	private images: LskyImageItem[] = [];
+	private usage = new Map<string, string[]>();
+	private selected = new Set<string>();
+	private query = '';
+	private date = '';
+	private page = 0;
+	private loading = false;
+	private error = '';
+	// 点击侧边栏后活动视图会变成图库，插入时使用最近一次活动的编辑器
+	private lastEditor: MarkdownView | null = null;
+
+	constructor(leaf: WorkspaceLeaf, context: GalleryContext) {
+		super(leaf);
+		this.context = context;
+	}
+
+	getViewType(): string {
+		return GALLERY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return '图床图库';
+	}
+
+	getIcon(): string {
+		return 'image';
+	}
+
+	async onOpen() {
+		this.lastEditor = this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+			if (leaf?.view instanceof MarkdownView) this.lastEditor = leaf.view;
+		}));
+		this.profileId = this.context.defaultProfileId();
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.containerEl.children[1].empty();
+	}
+
+	private get profile(): LskyProfile | undefined {
+		const profiles = this.context.profiles();
+		return profiles.find(p => p.id === this.profileId) ?? profiles[0];
+	}
+
+	async refresh() {
+		const profile = this.profile;
+		this.images = [];
+		this.usage = new Map();
+		this.selected.clear();
+		this.error = '';
+		if (!profile) { this.error = '请先在设置中添加图床配置'; this.render(); return; }
+		this.loading = true;
+		this.render();
+		try {
+			const client = await this.context.getClient(profile);
+			this.images = await client.listAllImages();
+			this.usage = await imageUsage(this.context.index, profile, this.images);
+		} catch (e) {
+			this.error = '加载失败：' + (e as Error).message;
+		} finally {
+			this.loading = false;
+		}
+		this.render();
+	}
+
+	private filtered(): LskyImageItem[] {
+		const query = this.query.trim().toLowerCase();
+		const date = this.date.trim();
+		return this.images.filter(img => {
+			if (query && ![img.name, img.origin_name].some(n => n?.toLowerCase().includes(query))) return false;
+			return !date || (img.date || '').startsWith(date);
+		});
+	}
+
+	private render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('lsky-gallery');
+		this.renderToolbar(container);
+		if (this.loading) { container.createDiv({ cls: 'lsky-gallery-empty', text: '正在加载图床图片…' }); return; }
+		if (this.error) { container.createDiv({ cls: 'lsky-gallery-empty', text: this.error }); return; }
+		const images = this.filtered();
+		const pages = Math.max(1, Math.ceil(images.length / PAGE_SIZE));
+		this.page = Math.min(this.page, pages - 1);
+		container.createDiv({ cls: 'lsky-gallery-summary', text: `共 ${images.length} 张${images.length !== this.images.length ? `（全部 ${this.images.length} 张）` : ''}，已选 ${this.selected.size} 张` });
+		if (images.length === 0) { container.createDiv({ cls: 'lsky-gallery-empty', text: '没有符合条件的图片' }); return; }
+		const grid = container.createDiv({ cls: 'lsky-gallery-grid' });
+		images.slice(this.page * PAGE_SIZE, (this.page + 1) * PAGE_SIZE).forEach(img => this.renderCard(grid, img));
+		const pager = container.createDiv({ cls: 'lsky-gallery-pager' });
+		const prev = pager.createEl('button', { text: '上一页' });
+		prev.disabled = this.page === 0;
+		prev.addEventListener('click', () => { this.page--; this.render(); });
+		pager.createSpan({ text: `第 ${this.page + 1} / ${pages} 页` });
+		const next = pager.createEl('button', { text: '下一页' });
+		next.disabled = this.page >= pages - 1;
+		next.addEventListener('click', () => { this.page++; this.render(); });
+	}
+
+	private renderToolbar(container: HTMLElement) {
+		const toolbar = container.createDiv({ cls: 'lsky-gallery-toolbar' });
+		const profiles = this.context.profiles();
+		if (profiles.length > 1) {
+			const select = toolbar.createEl('select', { cls: 'dropdown' });
+			profiles.forEach(p => select.createEl('option', { text: p.name, value: p.id }));
+			select.value = this.profile?.id ?? '';
+			select.addEventListener('change', () => { this.profileId = select.value; this.page = 0; this.refresh(); });
+		}
+		const search = toolbar.createEl('input', { type: 'search', placeholder: '按名称搜索' });
+		search.value = this.query;
+		search.addEventListener('input', () => { this.query = search.value; this.page = 0; this.renderKeepingFocus(search); });
+		const date = toolbar.createEl('input', { type: 'search', placeholder: '日期，如 2024-05 或 2024-05-01' });
+		date.value = this.date;
+		date.addEventListener('input', () => { this.date = date.value; this.page = 0; this.renderKeepingFocus(date); });
+		const actions = toolbar.createDiv({ cls: 'lsky-gallery-actions' });
+		actions.createEl('button', { text: '刷新' }).addEventListener('click', () => this.refresh());
+		const del = actions.createEl('button', { text: `删除所选（${this.selected.size}）`, cls: 'mod-warning' });
+		del.disabled = this.selected.size === 0;
+		del.addEventListener('click', () => this.deleteImages(this.images.filter(img => this.selected.has(img.key))));
+		if (this.selected.size) actions.createEl('button', { text: '取消选择' }).addEventListener('click', () => { this.selected.clear(); this.render(); });
+	}
+
+	// 重新渲染后把焦点和光标放回正在输入的搜索框
+	private renderKeepingFocus(input: HTMLInputElement) {
+		const placeholder = input.placeholder;
+		const caret = input.selectionStart;
+		this.render();
+		const next = this.containerEl.querySelector<HTMLInputElement>(`input[placeholder="${placeholder}"]`);
+		if (!next) return;
+		next.focus();
+		if (caret !== null) next.setSelectionRange(caret, caret);
+	}
+
+	private renderCard(grid: HTMLElement, img: LskyImageItem) {
+		const card = grid.createDiv({ cls: 'lsky-gallery-card' });
+		if (this.selected.has(img.key)) card.addClass('is-selected');
+		const thumb = card.createEl('img', { cls: 'lsky-gallery-thumb', attr: { src: img.links.thumbnail_url || img.links.url, loading: 'lazy', title: '点击插入到笔记' } });
+		thumb.addEventListener('click', () => this.insertImage(img));
+		const meta = card.createDiv({ cls: 'lsky-gallery-meta' });
+		const check = meta.createEl('input', { type: 'checkbox' });
+		check.checked = this.selected.has(img.key);
+		check.addEventListener('change', () => {
+			if (check.checked) this.selected.add(img.key); else this.selected.delete(img.key);
+			this.render();
+		});
+		meta.createSpan({ cls: 'lsky-gallery-name', text: img.origin_name || img.name, attr: { title: `${img.origin_name || img.name}${img.date ? `\n${img.date}` : ''}` } });
+		const notes = this.usage.get(img.key) || [];
+		const badge = meta.createSpan({ cls: `lsky-gallery-badge ${notes.length ? 'is-used' : 'is-unused'}`, text: notes.length ? `已引用 ${notes.length}` : '未引用' });
+		if (notes.length) {
+			badge.setAttr('title', notes.join('\n'));
+			badge.addEventListener('click', (evt) => {
+				const menu = new Menu();
+				notes.forEach(path => menu.addItem(item => item.setTitle(path).setIcon('document').onClick(() => this.app.workspace.openLinkText(path, '', false))));
+				menu.showAtMouseEvent(evt);
+			});
+		}
+		const del = meta.createEl('button', { cls: 'lsky-gallery-delete', text: '删除' });
+		del.addEventListener('click', () => this.deleteImages([img]));
+	}
+
+	private insertImage(img: LskyImageItem) {
+		const view = this.lastEditor;
+		if (!view || !view.file || !this.app.workspace.getLeavesOfType('markdown').some(l => l.view === view)) {
+			new Notice('请先打开要插入图片的笔记');
+			return;
+		}
+		const name = (img.origin_name || img.name).replace(/\.[^.]+$/, '').replace(/[[\]]/g, '');
+		// 按设置中的链接格式输出，与上传、下载改写链接时一致
+		const markdown = `![${name}](${img.links.url.replace(/ /g, '%20')})`;
+		const ref = extractImageReferences(markdown)[0];
+		view.editor.replaceSelection(ref ? formatImageLink(markdown, ref, img.links.url, this.context.options().linkStyle) : markdown);
+		new Notice(`已插入到 ${view.file.basename}`);
+	}
+
+	private async deleteImages(images: LskyImageItem[]) {
+		const profile = this.profile;
+		if (!profile || images.length === 0) return;
+		if (!await confirmDelete(this.app, images, this.usage)) return;
+		let client: LskyClient;
+		try {
+			client = await this.context.getClient(profile);
+		} catch (e) {
+			new Notice('删除失败：' + (e as Error).message);
+			return;
+		}
+		const queue = new TransferQueue(this.context.options());
+		const progress = new ProgressModal(this.app, '从图床删除图片', () => queue.cancel());
+		progress.open();
+		progress.setTotal(images.length);
+		const label = (img: LskyImageItem) => img.origin_name || img.name;
+		const results = await queue.run(images, img => client.deleteImageByKey(img.key), (img, i, status, detail) => {
+			progress.setItemStatus(String(i), label(img), status, detail);
+			if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment(label(img));
+		});
+		const deleted = new Set(results.filter(r => r.status === 'success').map(r => r.item.key));
+		if (this.context.ledger) await this.context.ledger.removeByKeys(Array.from(deleted), profile.id);
+		progress.finish(summarizeTransfers(results, label));
+		this.images = this.images.filter(img => !deleted.has(img.key));
+		deleted.forEach(key => { this.selected.delete(key); this.usage.delete(key); });
+		this.render();
+	}
+}
@@ -0,0 +1,263 @@
+import {App, FuzzySuggestModal, Modal, moment, Notice, TFile} from 'obsidian';
+import {LskyClient} from '../api/lsky';
+import {CanvasNode} from '../utils/references';
+import {UploadLedger} from './ledger';
+
+export type JournalKind = 'upload' | 'bulk-upload' | 'download' | 'rehost' | 'migrate' | 'restore';
+
+/** 一处链接替换：替换前后的完整链接文本 */
+export interface LinkSubstitution {
+	before: string;
+	after: string;
+	/** 替换时在笔记（Canvas 为节点文本）中的位置，同一链接出现多次时据此找回被替换的那一处 */
+	offset?: number;
+	/** Canvas 节点 id */
+	node?: string;
+}
+
+export interface JournalEntry {
+	id: string;
+	kind: JournalKind;
+	title: string;
+	startedAt: number;
+	/** 笔记路径 -> 本次在该笔记中做的替换 */
+	notes: Record<string, LinkSubstitution[]>;
+	/** 本次新建的本地文件（下载） */
+	createdFiles: string[];
+	/** 本次新上传到图床的图片，复用已有链接的不算在内 */
+	uploadedImages: { key: string; url: string; profileId: string }[];
+	/** 上传后移到归档文件夹的本地图片，撤销时移回原处 */
+	movedFiles?: { from: string; to: string }[];
+	/** 上传后删除或移到回收站的本地图片，无法自动恢复 */
+	removedFiles?: string[];
+	revertedAt?: number;
+}
+
+const MAX_ENTRIES = 20;
+
+const KIND_TEXT: Record<JournalKind, string> = {
+	upload: '上传',
+	'bulk-upload': '批量上传',
+	download: '下载',
+	rehost: '转存',
+	migrate: '迁移',
+	restore: '恢复'
+};
+
+/**
+ * 记录一次运行中的链接替换与新建内容，结束时调用 save 写入日志；没有任何改动时不保存。
+ */
+export class JournalRecorder {
+	readonly entry: JournalEntry;
+	private journal?: RunJournal;
+
+	constructor(journal: RunJournal | undefined, kind: JournalKind, title: string) {
+		this.journal = journal;
+		this.entry = {
+			id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+			kind,
+			title,
+			startedAt: Date.now(),
+			notes: {},
+			createdFiles: [],
+			uploadedImages: []
+		};
+	}
+
+	/** 供 replaceImageReferences 的 onReplace 使用 */
+	substitution(notePath: string): (before: string, after: string, offset?: number, node?: string) => void {
+		return (before, after, offset, node) => {
+			if (before === after) return;
+			(this.entry.notes[notePath] = this.entry.notes[notePath] || []).push({ before, after, offset, node });
+		};
+	}
+
+	createdFile(path: string) {
+		this.entry.createdFiles.push(path);
+	}
+
+	uploaded(images: { key: string; url: string; profileId: string }[]) {
+		this.entry.uploadedImages.push(...images);
+	}
+
+	movedFile(from: string, to: string) {
+		(this.entry.movedFiles = this.entry.movedFiles || []).push({ from, to });
+	}
+
+	removedFile(path: string) {
+		(this.entry.removedFiles = this.entry.removedFiles || []).push(path);
+	}
+
+	async save(): Promise<void> {
+		const e = this.entry;
+		if (!this.journal || (Object.keys(e.notes).length === 0 && e.createdFiles.length === 0 && e.uploadedImages.length === 0 && !e.movedFiles?.length && !e.removedFiles?.length)) return;
+		await this.journal.add(e);
+	}
+}
+
+/**
+ * 操作日志，与 UploadLedger 一样直接修改插件 state 中的数组，只保留最近 20 次。
+ */
+export class RunJournal {
+	private entries: JournalEntry[];
+	private persist: () => Promise<void>;
+
+	constructor(entries: JournalEntry[], persist: () => Promise<void>) {
+		this.entries = entries;
+		this.persist = persist;
+	}
+
+	all(): JournalEntry[] {
+		return this.entries.slice().sort((a, b) => b.startedAt - a.startedAt);
+	}
+
+	latest(): JournalEntry | undefined {
+		return this.all().find(e => !e.revertedAt);
+	}
+
+	async add(entry: JournalEntry): Promise<void> {
+		this.entries.push(entry);
+		if (this.entries.length > MAX_ENTRIES) this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+		await this.persist();
+	}
+
+	async markReverted(id: string): Promise<void> {
+		const entry = this.entries.find(e => e.id === id);
+		if (entry) entry.revertedAt = Date.now();
+		await this.persist();
+	}
+}
+
+function entryText(entry: JournalEntry): string {
+	const notes = Object.keys(entry.notes).length;
+	return `${moment(entry.startedAt).format('YYYY-MM-DD HH:mm')} ${KIND_TEXT[entry.kind]}：${entry.title}（${notes} 篇笔记）${entry.revertedAt ? ' [已撤销]' : ''}`;
+}
+
+async function confirmRevert(app: App, entry: JournalEntry): Promise<{ deleteFiles: boolean; deleteRemote: boolean } | null> {
+	return await new Promise((resolve) => {
+		class RevertModal extends Modal {
+			private resolved = false;
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: '撤销操作' });
+				contentEl.createEl('p', { text: entryText(entry) });
+				const subs = Object.values(entry.notes).reduce((n, list) => n + list.length, 0);
+				contentEl.createEl('p', { text: `将把 ${Object.keys(entry.notes).length} 篇笔记中的 ${subs} 处链接恢复为原样` });
+				if (entry.removedFiles?.length) contentEl.createEl('p', { cls: 'mod-warning', text: `本次已将 ${entry.removedFiles.length} 张本地原图移到系统回收站或永久删除，撤销无法恢复这些文件，恢复后的链接将指向不存在的文件` });
+				const options = { deleteFiles: false, deleteRemote: false };
+				const option = (text: string, key: keyof typeof options) => {
+					const row = contentEl.createEl('label', { cls: 'lsky-review-item' });
+					const cb = row.createEl('input', { type: 'checkbox' });
+					cb.addEventListener('change', () => { options[key] = cb.checked; });
+					row.createSpan({ text });
+				};
+				if (entry.createdFiles.length) option(`同时删除本次新建的 ${entry.createdFiles.length} 个本地文件（移到系统回收站）`, 'deleteFiles');
+				if (entry.uploadedImages.length) option(`同时从图床删除本次上传的 ${entry.uploadedImages.length} 张图片`, 'deleteRemote');
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				row.createEl('button', { text: '撤销', cls: 'mod-warning' }).addEventListener('click', () => { this.resolved = true; resolve(options); this.close(); });
+				row.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+			}
+			onClose() { if (!this.resolved) resolve(null); }
+		}
+		new RevertModal(app).open();
+	});
+}
+
+/** 还原一处替换：有多处相同文本时取离记录位置最近的一处，旧日志没有位置时取第一处；找不到返回 null */
+function revertText(text: string, sub: LinkSubstitution): string | null {
+	let idx = -1;
+	for (let i = text.indexOf(sub.after); i >= 0; i = text.indexOf(sub.after, i + 1)) {
+		if (idx < 0 || Math.abs(i - (sub.offset ?? 0)) < Math.abs(idx - (sub.offset ?? 0))) idx = i;
+		if (sub.offset === undefined) break;
+	}
+	return idx < 0 ? null : text.substring(0, idx) + sub.before + text.substring(idx + sub.after.length);
+}
+
+/** Canvas 中的文本经过 JSON 转义，解析后在节点字段中还原 */
+function revertCanvas(content: string, subs: LinkSubstitution[]): { content: string; restored: number } {
+	let data: { nodes?: CanvasNode[] };
+	try { data = JSON.parse(content); } catch { return { content, restored: 0 }; }
+	let restored = 0;
+	for (const sub of subs) {
+		const node = (data?.nodes || []).find(n => (!sub.node || n.id === sub.node) && (n.type === 'link' ? n.url === sub.after : n.type === 'text' && !!n.text && n.text.includes(sub.after)));
+		if (!node) continue;
+		if (node.type === 'link') node.url = sub.before;
+		else node.text = revertText(node.text || '', sub) ?? node.text;
+		restored++;
+	}
+	return { content: restored ? JSON.stringify(data, null, '\t') : content, restored };
+}
+
+/**
+ * 按日志把链接替换回原样：从最后一处替换开始，找到替换后的文本并还原，找不到（笔记已被再次修改）的计入未恢复。
+ */
+export async function revertEntry(app: App, journal: RunJournal, entry: JournalEntry, getClient: (profileId: string) => Promise<LskyClient | undefined>, ledger?: UploadLedger): Promise<void> {
+	if (entry.revertedAt) { new Notice('该操作已经撤销过'); return; }
+	const options = await confirmRevert(app, entry);
+	if (!options) return;
+	let restored = 0; let missing = 0;
+	for (const { from, to } of entry.movedFiles ?? []) {
+		const file = app.vault.getAbstractFileByPath(to);
+		if (!(file instanceof TFile) || app.vault.getAbstractFileByPath(from)) continue;
+		const folder = from.substring(0, from.lastIndexOf('/'));
+		if (folder && !app.vault.getAbstractFileByPath(folder)) await app.vault.createFolder(folder);
+		await app.vault.rename(file, from);
+	}
+	for (const [path, subs] of Object.entries(entry.notes)) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) { missing += subs.length; continue; }
+		const original = await app.vault.read(file);
+		let content = original;
+		if (file.extension === 'canvas') {
+			const result = revertCanvas(content, subs.slice().reverse());
+			content = result.content;
+			restored += result.restored;
+			missing += subs.length - result.restored;
+		} else {
+			for (const sub of subs.slice().reverse()) {
+				const updated = revertText(content, sub);
+				if (updated === null) { missing++; continue; }
+				content = updated;
+				restored++;
+			}
+		}
+		if (content !== original) await app.vault.modify(file, content);
+	}
+	let removedFiles = 0;
+	if (options.deleteFiles) {
+		for (const path of entry.createdFiles) {
+			const file = app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) { await app.vault.trash(file, true); removedFiles++; }
+		}
+	}
+	let removedRemote = 0;
+	if (options.deleteRemote) {
+		for (const img of entry.uploadedImages) {
+			try {
+				const client = await getClient(img.profileId);
+				if (!client) continue;
+				await client.deleteImageByKey(img.key);
+				if (ledger) await ledger.removeByKeys([img.key], img.profileId);
+				removedRemote++;
+			} catch { /* empty */ }
+		}
+	}
+	await journal.markReverted(entry.id);
+	new Notice(`已恢复 ${restored} 处链接${missing ? `，${missing} 处未找到（笔记可能已被修改）` : ''}${removedFiles ? `，删除 ${removedFiles} 个本地文件` : ''}${removedRemote ? `，从图床删除 ${removedRemote} 张图片` : ''}`);
+}
+
+export function chooseJournalEntry(app: App, journal: RunJournal, onChoose: (entry: JournalEntry) => void): void {
+	const entries = journal.all().filter(e => !e.revertedAt);
+	if (entries.length === 0) { new Notice('没有可撤销的操作'); return; }
+	class HistoryModal extends FuzzySuggestModal<JournalEntry> {
+		constructor() {
+			super(app);
+			this.setPlaceholder('选择要撤销的操作');
+		}
+		getItems(): JournalEntry[] { return entries; }
+		getItemText(entry: JournalEntry): string { return entryText(entry); }
+		onChooseItem(entry: JournalEntry): void { onChoose(entry); }
+	}
+	new HistoryModal().open();
+}
@@ -0,0 +1,164 @@
+import {App, arrayBufferToHex, Modal, moment, Notice, TFile} from 'obsidian';
+import {LskyClient, LskyImageItem} from '../api/lsky';
+import {ProgressModal} from '../ui/progress';
+import {IMAGE_EXTENSIONS} from '../utils/references';
+
+export interface UploadRecord {
+	/** 上传来源在库中的路径，剪贴板等无来源文件时为空 */
+	path: string;
+	/** 来源内容的 SHA-1；未经压缩上传时与 Lsky 返回的 sha1 字段一致 */
+	hash: string;
+	key: string;
+	url: string;
+	thumbnailUrl?: string;
+	pathname?: string;
+	size?: number;
+	note: string;
+	uploadedAt: number;
+	/** 上传到的图床配置 */
+	profileId?: string;
+	/** 上传目标（存储策略、相册、权限）的 JSON，旧记录与重建的记录没有，视为服务器默认 */
+	target?: string;
+}
+
+export async function hashBinary(binary: ArrayBuffer): Promise<string> {
+	return arrayBufferToHex(await crypto.subtle.digest('SHA-1', binary));
+}
+
+export function recordFromImage(image: LskyImageItem, path: string, hash: string, note: string, profileId: string, target?: string): UploadRecord {
+	return {
+		path,
+		hash,
+		key: image.key,
+		url: image.links.url,
+		thumbnailUrl: image.links.thumbnail_url,
+		pathname: image.pathname,
+		size: image.size,
+		note,
+		uploadedAt: Date.now(),
+		profileId,
+		target
+	};
+}
+
+/**
+ * 上传记录，保存在插件数据中。records 与插件 state 共用同一个数组，修改后通过 persist 落盘。
+ */
+export class UploadLedger {
+	private records: UploadRecord[];
+	private persist: () => Promise<void>;
+
+	constructor(records: UploadRecord[], persist: () => Promise<void>) {
+		this.records = records;
+		this.persist = persist;
+	}
+
+	all(): UploadRecord[] {
+		return this.records.slice();
+	}
+
+	findByUrl(url: string): UploadRecord | undefined {
+		return this.records.find(r => r.url === url);
+	}
+
+	findByKey(key: string): UploadRecord | undefined {
+		return this.records.find(r => r.key === key);
+	}
+
+	/** 只复用同一配置、同一上传目标的记录，避免私有相册的笔记拿到公开图片的链接 */
+	findByHash(hash: string, profileId: string, target: string): UploadRecord | undefined {
+		return this.records.find(r => r.hash === hash && r.profileId === profileId && (r.target ?? '{}') === target);
+	}
+
+	async add(record: UploadRecord): Promise<void> {
+		this.records.push(record);
+		await this.persist();
+	}
+
+	/** 图片 key 只在同一服务器内唯一，按配置删除 */
+	async removeByKeys(keys: string[], profileId: string): Promise<void> {
+		if (keys.length === 0) return;
+		await this.replaceAll(this.records.filter(r => r.profileId !== profileId || !keys.includes(r.key)));
+	}
+
+	async replaceAll(records: UploadRecord[]): Promise<void> {
+		this.records.splice(0, this.records.length, ...records);
+		await this.persist();
+	}
+}
+
+export function showLedger(app: App, ledger: UploadLedger): void {
+	const records = ledger.all().sort((a, b) => b.uploadedAt - a.uploadedAt);
+	class LedgerModal extends Modal {
+		constructor() { super(app); }
+		onOpen() {
+			const { contentEl } = this;
+			contentEl.empty();
+			contentEl.createEl('h2', { text: '上传记录' });
+			contentEl.createEl('p', { text: `共 ${records.length} 条记录` });
+			const list = contentEl.createDiv({ cls: 'lsky-ledger-list' });
+			records.forEach(r => {
+				const item = list.createDiv({ cls: 'lsky-ledger-item' });
+				item.createEl('div', { text: r.url, cls: 'lsky-ledger-url' });
+				const meta = [moment(r.uploadedAt).format('YYYY-MM-DD HH:mm'), r.path || '剪贴板', r.note, r.key].filter(Boolean).join(' · ');
+				item.createEl('div', { text: meta, cls: 'lsky-ledger-meta' });
+			});
+		}
+	}
+	new LedgerModal().open();
+}
+
+export async function exportLedger(app: App, ledger: UploadLedger): Promise<void> {
+	const path = `lsky-ledger-${moment().format('YYYYMMDD-HHmmss')}.json`;
+	await app.vault.create(path, JSON.stringify(ledger.all(), null, 2));
+	new Notice(`上传记录已导出：${path}`);
+}
+
+/**
+ * 以图床为准重建某个配置的上传记录：保留图床上仍存在的记录，并通过 sha1 把库中的图片文件与图床图片对应起来。
+ * 其他配置的记录保持不变。
+ */
+export async function rebuildLedger(app: App, client: LskyClient, ledger: UploadLedger): Promise<void> {
+	new Notice('开始重建上传记录...');
+	const remote = await client.listAllImages();
+	const byKey = new Map(remote.map(img => [img.key, img]));
+	const bySha1 = new Map<string, LskyImageItem>();
+	remote.forEach(img => { if (img.sha1) bySha1.set(img.sha1.toLowerCase(), img); });
+
+	const profileId = client.profileId;
+	const records: UploadRecord[] = [];
+	const others: UploadRecord[] = [];
+	for (const r of ledger.all()) {
+		if (r.profileId !== profileId) { others.push(r); continue; }
+		const img = byKey.get(r.key);
+		if (img) records.push({ ...r, url: img.links.url, thumbnailUrl: img.links.thumbnail_url, pathname: img.pathname, size: img.size });
+	}
+	const known = new Set(records.map(r => r.key));
+
+	const images = app.vault.getFiles().filter(f => IMAGE_EXTENSIONS.includes(f.extension.toLowerCase()));
+	const progress = new ProgressModal(app, '重建上传记录');
+	progress.open();
+	progress.setTotal(images.length);
+	const matched: { file: TFile; hash: string; img: LskyImageItem }[] = [];
+	for (const f of images) {
+		try {
+			const hash = await hashBinary(await app.vault.readBinary(f));
+			const img = bySha1.get(hash);
+			if (img && !known.has(img.key)) { matched.push({ file: f, hash, img }); known.add(img.key); }
+		} catch { /* empty */ }
+		progress.increment(f.name);
+	}
+	progress.close();
+
+	if (matched.length) {
+		const noteByUrl = new Map<string, string>();
+		for (const note of app.vault.getMarkdownFiles()) {
+			const content = await app.vault.read(note);
+			matched.forEach(m => { if (!noteByUrl.has(m.img.links.url) && content.includes(m.img.links.url)) noteByUrl.set(m.img.links.url, note.path); });
+		}
+		matched.forEach(m => records.push(recordFromImage(m.img, m.file.path, m.hash, noteByUrl.get(m.img.links.url) || '', profileId)));
+	}
+
+	await ledger.replaceAll([...others, ...records]);
+	new Notice(`上传记录重建完成：共 ${records.length} 条，新匹配 ${matched.length} 条`);
+}
@@ -0,0 +1,166 @@
+import {App, MarkdownView, Modal, Notice, requestUrl, TFile} from 'obsidian';
+import {LskyHttpError} from '../api/lsky';
+import {ProgressModal} from '../ui/progress';
+import {summarizeTransfers, TransferOptions, TransferQueue} from '../utils/queue';
+import {extractFileImageReferences} from '../utils/references';
+import {UploadLedger, UploadRecord} from './ledger';
+import {CustomUploader} from './upload';
+import {JournalRecorder, RunJournal} from './journal';
+import {ImageUsageIndex} from './usage-index';
+
+interface BrokenLink {
+	url: string;
+	reason: string;
+	/** 上传记录中仍存在于库中的原始文件，可以重新上传 */
+	local?: { record: UploadRecord; file: TFile };
+}
+
+interface BrokenNote {
+	path: string;
+	/** 0 起始的行号与链接 */
+	lines: { line: number; link: BrokenLink }[];
+}
+
+async function requestStatus(url: string, method: 'HEAD' | 'GET'): Promise<number> {
+	try {
+		return (await requestUrl({ url, method })).status;
+	} catch (e) {
+		const status = (e as { status?: number })?.status;
+		if (typeof status === 'number') return status;
+		throw e;
+	}
+}
+
+/** 先发 HEAD，服务器不支持或拒绝 HEAD 时改用 GET；失效时抛出带状态码的错误，限流与 5xx 由队列重试 */
+async function checkUrl(url: string): Promise<number> {
+	const target = url.startsWith('//') ? 'https:' + url : url;
+	let status = await requestStatus(target, 'HEAD');
+	if (status === 403 || status === 405 || status === 501) status = await requestStatus(target, 'GET');
+	if (status >= 400) throw new LskyHttpError(status);
+	return status;
+}
+
+function findLocalCopy(app: App, url: string, ledger?: UploadLedger): BrokenLink['local'] {
+	const record = ledger?.all().find(r => r.path && (r.url === url || r.thumbnailUrl === url));
+	const file = record ? app.vault.getAbstractFileByPath(record.path) : null;
+	return record && file instanceof TFile ? { record, file } : undefined;
+}
+
+async function openAtLine(app: App, path: string, line: number) {
+	const file = app.vault.getAbstractFileByPath(path);
+	if (!(file instanceof TFile)) return;
+	const leaf = app.workspace.getLeaf(false);
+	await leaf.openFile(file);
+	if (leaf.view instanceof MarkdownView) {
+		const pos = { line, ch: 0 };
+		leaf.view.editor.setCursor(pos);
+		leaf.view.editor.scrollIntoView({ from: pos, to: pos }, true);
+	}
+}
+
+/**
+ * 用本地原图重新上传，并把所有笔记中的失效链接替换为新链接。
+ * 上传时跳过去重，否则按哈希或图床 sha1 会复用失效的链接；上传成功后才删除失效图片的上传记录。Canvas 中的链接一并替换。
+ */
+async function reupload(app: App, link: BrokenLink, index: ImageUsageIndex, getUploader: (note: TFile | null) => Promise<CustomUploader | undefined>, ledger?: UploadLedger, journal?: RunJournal): Promise<boolean> {
+	if (!link.local) return false;
+	const notes = index.notesFor(link.url).map(p => app.vault.getAbstractFileByPath(p)).filter((f): f is TFile => f instanceof TFile);
+	const uploader = await getUploader(notes[0] ?? null);
+	if (!uploader) return false;
+	try {
+		const url = await uploader.uploadImageFile(link.local.file, notes[0], false);
+		if (ledger) await ledger.removeByKeys([link.local.record.key], link.local.record.profileId || '');
+		const recorder = new JournalRecorder(journal, 'upload', `重新上传 ${link.local.file.path}`);
+		recorder.uploaded(uploader.uploadedImages);
+		for (const note of notes) {
+			const content = await app.vault.read(note);
+			const updated = uploader.replaceFileImageLink(note, content, link.url, url, recorder.substitution(note.path));
+			if (updated !== content) await app.vault.modify(note, updated);
+		}
+		await recorder.save();
+		new Notice(`已重新上传 ${link.local.file.name}，更新 ${notes.length} 篇笔记`);
+		return true;
+	} catch (e) {
+		new Notice('重新上传失败：' + (e as Error).message);
+		return false;
+	}
+}
+
+function showBrokenLinks(app: App, checked: number, notes: BrokenNote[], onReupload: (link: BrokenLink) => Promise<boolean>) {
+	class BrokenLinksModal extends Modal {
+		onOpen() {
+			const { contentEl } = this;
+			contentEl.empty();
+			contentEl.createEl('h2', { text: '失效的图片链接' });
+			const broken = new Set(notes.flatMap(n => n.lines.map(l => l.link.url)));
+			contentEl.createEl('p', { text: `共检查 ${checked} 个链接，失效 ${broken.size} 个，涉及 ${notes.length} 篇笔记` });
+			notes.forEach(note => {
+				contentEl.createEl('h4', { text: note.path });
+				note.lines.forEach(({ line, link }) => {
+					const item = contentEl.createDiv({ cls: 'lsky-ledger-item lsky-broken-link' });
+					const jump = item.createEl('a', { text: `第 ${line + 1} 行`, href: '#' });
+					jump.addEventListener('click', (evt) => {
+						evt.preventDefault();
+						this.close();
+						openAtLine(app, note.path, line);
+					});
+					item.createSpan({ cls: 'lsky-ledger-url', text: ` ${link.url}` });
+					item.createDiv({ cls: 'lsky-ledger-meta', text: link.reason });
+					if (link.local) {
+						const btn = item.createEl('button', { text: `用 ${link.local.file.path} 重新上传` });
+						btn.addEventListener('click', async () => {
+							btn.disabled = true;
+							if (await onReupload(link)) btn.setText('已重新上传');
+							else btn.disabled = false;
+						});
+					}
+				});
+			});
+		}
+	}
+	new BrokenLinksModal(app).open();
+}
+
+/**
+ * 检查库中引用的所有远程图片（图床与外部网站），以有限并发发送 HEAD 请求，按笔记列出失效的链接。
+ */
+export async function checkImageLinks(app: App, index: ImageUsageIndex, options: TransferOptions, getUploader: (note: TFile | null) => Promise<CustomUploader | undefined>, ledger?: UploadLedger, journal?: RunJournal): Promise<void> {
+	if (!navigator.onLine) { new Notice('当前处于离线状态，无法检查链接'); return; }
+	await index.ready();
+	const urls = index.urls();
+	if (urls.length === 0) { new Notice('笔记中没有远程图片'); return; }
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, '检查图片链接', () => queue.cancel());
+	progress.open();
+	progress.setTotal(urls.length);
+	const results = await queue.run(urls, url => checkUrl(url), (url, i, status, detail) => {
+		// 只列出有问题的链接，避免列表过长
+		if (status === 'retrying' || status === 'failed') progress.setItemStatus(String(i), url, status, detail);
+		if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment();
+	});
+	const broken = new Map<string, BrokenLink>();
+	results.forEach(r => {
+		if (r.status === 'failed') broken.set(r.item, { url: r.item, reason: r.error?.message || '无法访问', local: findLocalCopy(app, r.item, ledger) });
+	});
+	const byNote = new Map<string, BrokenNote>();
+	for (const link of broken.values()) {
+		for (const path of index.notesFor(link.url)) {
+			const file = app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			const note = byNote.get(path) ?? { path, lines: [] };
+			extractFileImageReferences(file, await app.vault.cachedRead(file))
+				.filter(ref => ref.target === link.url)
+				.forEach(ref => note.lines.push({ line: ref.line, link }));
+			byNote.set(path, note);
+		}
+	}
+	const notes = Array.from(byNote.values()).sort((a, b) => a.path.localeCompare(b.path));
+	notes.forEach(n => n.lines.sort((a, b) => a.line - b.line));
+	if (broken.size === 0) {
+		progress.finish(summarizeTransfers(results, url => url));
+		new Notice(`检查${queue.isCancelled ? '已取消' : '完成'}：${results.filter(r => r.status === 'success').length} 个链接均可访问`);
+		return;
+	}
+	progress.close();
+	showBrokenLinks(app, results.filter(r => r.status !== 'skipped').length, notes, link => reupload(app, link, index, getUploader, ledger, journal));
+}
@@ -0,0 +1,95 @@
+import {App, normalizePath, TFile} from 'obsidian';
+import {extractImageReferences} from '../utils/references';
+import {JournalRecorder} from './journal';
+
+/** 上传成功并改写链接后如何处理本地图片：保留、移到系统回收站、永久删除或移到归档文件夹 */
+export type LocalFileAction = 'keep' | 'trash' | 'delete' | 'archive';
+
+export interface LocalFileOptions {
+	localFileAction: LocalFileAction;
+	/** 归档时的目标文件夹，保留原有的目录结构 */
+	localArchiveFolder: string;
+}
+
+export const LOCAL_FILE_ACTION_TEXT: Record<LocalFileAction, string> = {
+	keep: '保留',
+	trash: '移到系统回收站',
+	delete: '永久删除',
+	archive: '移到归档文件夹'
+};
+
+// 笔记中的普通链接（非嵌入）同样算作引用
+const PLAIN_LINK_REGEX = /\[\[([^\]|#^]+)[^\]]*\]\]|\]\(\s*(?:<([^>]+)>|([^)\s]+))/g;
+
+function linkTargets(content: string): string[] {
+	const targets = extractImageReferences(content).map(r => r.target);
+	const regex = new RegExp(PLAIN_LINK_REGEX.source, 'g');
+	let m: RegExpExecArray | null;
+	while ((m = regex.exec(content)) !== null) targets.push(m[1] || m[2] || m[3]);
+	return targets;
+}
+
+function resolveLink(app: App, target: string, note: TFile): TFile | null {
+	let path = target.split(/[#|]/)[0].trim();
+	try { path = decodeURIComponent(path); } catch { /* empty */ }
+	if (!path || /^[a-z][\w+.-]*:|^\/\//i.test(path)) return null;
+	const relative = normalizePath([note.parent && !note.parent.isRoot() ? note.parent.path : '', path.replace(/^\.\//, '')].filter(Boolean).join('/'));
+	const direct = app.vault.getAbstractFileByPath(relative) ?? app.vault.getAbstractFileByPath(normalizePath(path.replace(/^\//, '')));
+	if (direct instanceof TFile) return direct;
+	return app.metadataCache.getFirstLinkpathDest(path, note.path);
+}
+
+/**
+ * 是否还有笔记在本地引用该文件。候选笔记来自 metadataCache.resolvedLinks；本次刚改写过的笔记，
+ * 缓存可能还没更新，改为读取当前内容逐个解析链接。
+ */
+async function isStillReferenced(app: App, file: TFile, rewritten: Set<string>): Promise<boolean> {
+	for (const [source, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!links[file.path]) continue;
+		const note = app.vault.getAbstractFileByPath(source);
+		if (!(note instanceof TFile)) continue;
+		if (!rewritten.has(source)) return true;
+		const content = await app.vault.read(note);
+		if (linkTargets(content).some(t => resolveLink(app, t, note)?.path === file.path)) return true;
+	}
+	return false;
+}
+
+async function ensureFolder(app: App, path: string) {
+	if (!path || app.vault.getAbstractFileByPath(path)) return;
+	await app.vault.createFolder(path);
+}
+
+async function archiveFile(app: App, file: TFile, folder: string): Promise<string> {
+	const base = normalizePath(`${folder.trim() || 'lsky-archive'}/${file.path}`);
+	const dot = base.lastIndexOf('.');
+	let path = base;
+	for (let i = 1; app.vault.getAbstractFileByPath(path); i++) path = dot > 0 ? `${base.substring(0, dot)}-${i}${base.substring(dot)}` : `${base}-${i}`;
+	await ensureFolder(app, path.substring(0, path.lastIndexOf('/')));
+	await app.vault.rename(file, path);
+	return path;
+}
+
+/**
+ * 处理已上传的本地图片，只处理不再被任何笔记在本地引用的文件。返回处理的文件数。
+ * 归档与删除都记入操作日志，撤销时归档的文件会移回原处。
+ */
+export async function cleanupLocalFiles(app: App, files: TFile[], rewritten: TFile[], options: LocalFileOptions, recorder?: JournalRecorder): Promise<number> {
+	if (options.localFileAction === 'keep') return 0;
+	const notes = new Set(rewritten.map(f => f.path));
+	let count = 0;
+	for (const file of new Set(files)) {
+		if (!app.vault.getAbstractFileByPath(file.path)) continue;
+		if (await isStillReferenced(app, file, notes)) continue;
+		const from = file.path;
+		if (options.localFileAction === 'archive') {
+			recorder?.movedFile(from, await archiveFile(app, file, options.localArchiveFolder));
+		} else {
+			if (options.localFileAction === 'trash') await app.vault.trash(file, true);
+			else await app.vault.delete(file);
+			recorder?.removedFile(from);
+		}
+		count++;
+	}
+	return count;
+}
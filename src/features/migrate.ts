@@ -0,0 +1,257 @@
+import {App, DropdownComponent, Modal, moment, Notice, Setting, TFile} from 'obsidian';
+import {LskyClient, LskyImageItem} from '../api/lsky';
+import {LskyProfile} from '../api/profiles';
+import {ProgressModal} from '../ui/progress';
+import {summarizeTransfers, TransferOptions, TransferQueue, TransferSummary} from '../utils/queue';
+import {getImageHosts, matchesImageHost, normalizeImagePath} from '../utils/url';
+import {extractFileImageReferences, getReferenceFiles} from '../utils/references';
+import {downloadToBinary, fileNameFor} from './download';
+import {CustomUploader} from './upload';
+import {UploadLedger} from './ledger';
+import {JournalRecorder, RunJournal} from './journal';
+
+/** 图床迁移的断点，保存在插件 state 中，中断后可以继续 */
+export interface MigrationCheckpoint {
+	sourceId: string;
+	targetId: string;
+	/** 全部迁移成功后从源图床删除原图 */
+	deleteOriginals: boolean;
+	startedAt: number;
+	/** 原链接 -> 新链接 */
+	migrated: Record<string, string>;
+	/** 原链接 -> 最近一次失败的原因 */
+	failed: Record<string, string>;
+	/** 已从源图床删除的图片 key */
+	deletedKeys: string[];
+}
+
+export interface MigrationStore {
+	get(): MigrationCheckpoint | undefined;
+	set(checkpoint: MigrationCheckpoint | undefined): Promise<void>;
+}
+
+type ResumeChoice = 'resume' | 'restart' | null;
+
+async function askResume(app: App, checkpoint: MigrationCheckpoint, source?: LskyProfile, target?: LskyProfile): Promise<ResumeChoice> {
+	return await new Promise<ResumeChoice>((resolve) => {
+		class ResumeModal extends Modal {
+			private result: ResumeChoice = null;
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: '继续上次的图床迁移？' });
+				contentEl.createEl('p', { text: `${source?.name ?? '已删除的配置'} → ${target?.name ?? '已删除的配置'}，开始于 ${new Date(checkpoint.startedAt).toLocaleString()}` });
+				contentEl.createEl('p', { text: `已迁移 ${Object.keys(checkpoint.migrated).length} 张图片，失败 ${Object.keys(checkpoint.failed).length} 张` });
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				if (source && target) row.createEl('button', { text: '继续', cls: 'mod-cta' }).addEventListener('click', () => { this.result = 'resume'; this.close(); });
+				row.createEl('button', { text: '重新开始' }).addEventListener('click', () => { this.result = 'restart'; this.close(); });
+				row.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+			}
+			onClose() { resolve(this.result); }
+		}
+		new ResumeModal(app).open();
+	});
+}
+
+async function chooseMigration(app: App, profiles: LskyProfile[]): Promise<{ source: LskyProfile; target: LskyProfile; deleteOriginals: boolean } | null> {
+	return await new Promise((resolve) => {
+		class MigrationModal extends Modal {
+			private resolved = false;
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: '迁移图床' });
+				contentEl.createEl('p', { text: '把笔记中引用的源图床图片逐一上传到目标图床，并更新所有笔记中的链接。' });
+				const choice = { sourceId: profiles[0].id, targetId: profiles[1].id, deleteOriginals: false };
+				const options = (drop: DropdownComponent) => profiles.forEach(p => drop.addOption(p.id, `${p.name}（${p.serverUrl}）`));
+				new Setting(contentEl).setName('源图床').addDropdown(drop => { options(drop); drop.setValue(choice.sourceId).onChange(v => { choice.sourceId = v; }); });
+				new Setting(contentEl).setName('目标图床').addDropdown(drop => { options(drop); drop.setValue(choice.targetId).onChange(v => { choice.targetId = v; }); });
+				new Setting(contentEl)
+					.setName('迁移完成后删除原图')
+					.setDesc('只有全部图片都迁移成功时才会从源图床删除')
+					.addToggle(toggle => toggle.setValue(false).onChange(v => { choice.deleteOriginals = v; }));
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				row.createEl('button', { text: '开始迁移', cls: 'mod-cta' }).addEventListener('click', () => {
+					if (choice.sourceId === choice.targetId) { new Notice('源图床与目标图床不能相同'); return; }
+					const source = profiles.find(p => p.id === choice.sourceId);
+					const target = profiles.find(p => p.id === choice.targetId);
+					if (!source || !target) return;
+					this.resolved = true;
+					resolve({ source, target, deleteOriginals: choice.deleteOriginals });
+					this.close();
+				});
+				row.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+			}
+			onClose() { if (!this.resolved) resolve(null); }
+		}
+		new MigrationModal(app).open();
+	});
+}
+
+/** 按路径找到链接对应的源图床图片（原图或缩略图），用于删除原图 */
+function sourceImageFinder(images: LskyImageItem[]): (url: string) => LskyImageItem | undefined {
+	const byPath = new Map<string, LskyImageItem>();
+	images.forEach(img => {
+		[img.links.url, img.links.thumbnail_url].forEach(u => { const p = u ? normalizeImagePath(u) : null; if (p) byPath.set(p, img); });
+	});
+	return (url) => {
+		const path = normalizeImagePath(url);
+		if (!path) return undefined;
+		return byPath.get(path) ?? images.find(img => !!img.pathname && path.endsWith('/' + img.pathname.replace(/^\/+/, '')));
+	};
+}
+
+async function writeReport(app: App, cp: MigrationCheckpoint, source: LskyProfile, target: LskyProfile, changedNotes: number): Promise<TFile> {
+	const migrated = Object.entries(cp.migrated);
+	const failed = Object.entries(cp.failed);
+	const lines = [
+		'# 图床迁移报告',
+		'',
+		`- 源图床：${source.name}（${source.serverUrl}）`,
+		`- 目标图床：${target.name}（${target.serverUrl}）`,
+		`- 开始于：${moment(cp.startedAt).format('YYYY-MM-DD HH:mm:ss')}`,
+		`- 本次完成于：${moment().format('YYYY-MM-DD HH:mm:ss')}`,
+		`- 已迁移 ${migrated.length} 张图片，失败 ${failed.length} 张，本次更新 ${changedNotes} 篇笔记，从源图床删除 ${cp.deletedKeys.length} 张原图`,
+		''
+	];
+	if (failed.length) {
+		lines.push('## 失败', '');
+		failed.forEach(([url, reason]) => lines.push(`- \`${url}\`：${reason}`));
+		lines.push('');
+	}
+	if (migrated.length) {
+		lines.push('## 链接对照', '', '| 原链接 | 新链接 |', '| --- | --- |');
+		migrated.forEach(([from, to]) => lines.push(`| \`${from}\` | \`${to}\` |`));
+		lines.push('');
+	}
+	const path = `lsky-migration-${moment().format('YYYYMMDD-HHmmss')}.md`;
+	return await app.vault.create(path, lines.join('\n'));
+}
+
+/**
+ * 把笔记引用的源图床图片迁移到目标图床：每张图片只上传一次，随后更新所有笔记中的链接，
+ * 可选在全部成功后删除原图，最后在库根目录生成迁移报告。每迁移一张就保存断点，中断后再次运行可以继续。
+ */
+export async function migrateImages(app: App, profiles: LskyProfile[], options: TransferOptions, store: MigrationStore, getClient: (profile: LskyProfile) => Promise<LskyClient>, createUploader: (profile: LskyProfile) => Promise<CustomUploader | undefined>, journal?: RunJournal, ledger?: UploadLedger): Promise<void> {
+	if (profiles.length < 2) { new Notice('请先在设置中添加源图床与目标图床两个配置'); return; }
+	let checkpoint = store.get();
+	if (checkpoint) {
+		const cp = checkpoint;
+		const choice = await askResume(app, cp, profiles.find(p => p.id === cp.sourceId), profiles.find(p => p.id === cp.targetId));
+		if (!choice) return;
+		if (choice === 'restart') checkpoint = undefined;
+	}
+	if (!checkpoint) {
+		const chosen = await chooseMigration(app, profiles);
+		if (!chosen) return;
+		checkpoint = {
+			sourceId: chosen.source.id,
+			targetId: chosen.target.id,
+			deleteOriginals: chosen.deleteOriginals,
+			startedAt: Date.now(),
+			migrated: {},
+			failed: {},
+			deletedKeys: []
+		};
+	}
+	const cp = checkpoint;
+	const source = profiles.find(p => p.id === cp.sourceId);
+	const target = profiles.find(p => p.id === cp.targetId);
+	if (!source || !target) return;
+	await store.set(cp);
+
+	const sourceClient = await getClient(source);
+	let sourceImages: LskyImageItem[] = [];
+	try {
+		sourceImages = await sourceClient.listAllImages();
+	} catch (e) {
+		// 源图床列表只用于识别图片域名和删除原图，不删除原图时拿不到也可以迁移
+		if (cp.deleteOriginals) { new Notice('获取源图床图片列表失败：' + (e as Error).message); return; }
+	}
+	const hosts = getImageHosts(source.serverUrl, source.imageDomains, sourceImages);
+	const notesByUrl = new Map<string, TFile[]>();
+	// Canvas 同样要改写，否则删除原图后 Canvas 中的图片会失效
+	for (const file of getReferenceFiles(app)) {
+		const content = await app.vault.cachedRead(file);
+		extractFileImageReferences(file, content).forEach(ref => {
+			if (!matchesImageHost(ref.target, hosts)) return;
+			const list = notesByUrl.get(ref.target) || [];
+			if (!list.includes(file)) list.push(file);
+			notesByUrl.set(ref.target, list);
+		});
+	}
+	if (notesByUrl.size === 0 && Object.keys(cp.migrated).length === 0) {
+		await store.set(undefined);
+		new Notice(`笔记中没有引用 ${source.name} 的图片`);
+		return;
+	}
+	const uploader = await createUploader(target);
+	if (!uploader) return;
+
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, `迁移图片：${source.name} → ${target.name}`, () => queue.cancel());
+	progress.open();
+	const urls = Array.from(notesByUrl.keys()).filter(url => !cp.migrated[url]);
+	progress.setTotal(urls.length);
+	const results = await queue.run(urls, async (url) => {
+		const { binary, contentType } = await downloadToBinary(url);
+		const newUrl = await uploader.uploadBinaryForNote(binary, fileNameFor(url, contentType), notesByUrl.get(url)?.[0]);
+		cp.migrated[url] = newUrl;
+		delete cp.failed[url];
+		await store.set(cp);
+		return newUrl;
+	}, (url, i, status, detail) => {
+		progress.setItemStatus(String(i), url, status, detail);
+		if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment();
+	});
+	results.forEach(r => { if (r.status === 'failed') cp.failed[r.item] = r.error?.message || '未知错误'; });
+	await store.set(cp);
+	const summary: TransferSummary = summarizeTransfers(results, url => url);
+
+	// 包括之前运行中已迁移、但笔记尚未更新的链接
+	const recorder = new JournalRecorder(journal, 'migrate', `${source.name} → ${target.name}`);
+	recorder.uploaded(uploader.uploadedImages);
+	const notes = new Set<TFile>();
+	notesByUrl.forEach((files, url) => { if (cp.migrated[url]) files.forEach(f => notes.add(f)); });
+	let changedNotes = 0;
+	for (const note of notes) {
+		const content = await app.vault.read(note);
+		let updated = content;
+		for (const url of new Set(extractFileImageReferences(note, content).map(ref => ref.target))) {
+			const newUrl = cp.migrated[url];
+			if (newUrl) updated = uploader.replaceFileImageLink(note, updated, url, newUrl, recorder.substitution(note.path));
+		}
+		if (updated !== content) {
+			await app.vault.modify(note, updated);
+			changedNotes++;
+		}
+	}
+	await recorder.save();
+
+	const unfinished = summary.failed.length + summary.skipped.length;
+	if (cp.deleteOriginals && unfinished === 0 && !queue.isCancelled) {
+		const findImage = sourceImageFinder(sourceImages);
+		const originals = new Map<string, LskyImageItem>();
+		Object.keys(cp.migrated).forEach(url => {
+			const img = findImage(url);
+			if (img && !cp.deletedKeys.includes(img.key)) originals.set(img.key, img);
+		});
+		const deletions = await queue.run(Array.from(originals.values()), img => sourceClient.deleteImageByKey(img.key), (img, i, status, detail) => {
+			progress.setItemStatus(`delete|${i}`, `删除原图 ${img.links.url}`, status, detail);
+		});
+		const deleted = deletions.filter(r => r.status === 'success').map(r => r.item.key);
+		cp.deletedKeys.push(...deleted);
+		if (ledger) await ledger.removeByKeys(deleted, cp.sourceId);
+		const part = summarizeTransfers(deletions, img => `删除原图 ${img.links.url}`);
+		summary.failed.push(...part.failed);
+		summary.skipped.push(...part.skipped);
+		await store.set(cp);
+	}
+
+	const report = await writeReport(app, cp, source, target, changedNotes);
+	const done = summary.failed.length === 0 && summary.skipped.length === 0;
+	if (done) await store.set(undefined);
+	progress.finish(summary);
+	await app.workspace.getLeaf(true).openFile(report);
+	new Notice(`迁移${queue.isCancelled ? '已取消' : '完成'}：迁移 ${summary.success.length} 张图片，更新 ${changedNotes} 篇笔记${done ? '' : '，未完成的部分可再次运行以继续'}，报告：${report.path}`);
+}
@@ -0,0 +1,137 @@
+import {App, Modal, moment, TFile} from 'obsidian';
+import {isRetryableError} from '../utils/queue';
+import {CustomUploader} from './upload';
+
+/** 因离线或服务器不可用而推迟上传的本地图片 */
+export interface PendingUpload {
+	/** 本地图片在库中的路径 */
+	path: string;
+	/** 引用该图片、上传成功后需要更新链接的笔记 */
+	notes: string[];
+	addedAt: number;
+	attempts: number;
+	lastTriedAt?: number;
+	lastError?: string;
+}
+
+/**
+ * 待上传队列，与 UploadLedger 一样直接修改插件 state 中的数组。同一图片只保留一条，笔记合并。
+ */
+export class PendingUploadQueue {
+	private entries: PendingUpload[];
+	private persist: () => Promise<void>;
+
+	constructor(entries: PendingUpload[], persist: () => Promise<void>) {
+		this.entries = entries;
+		this.persist = persist;
+	}
+
+	all(): PendingUpload[] {
+		return this.entries.slice();
+	}
+
+	get size(): number {
+		return this.entries.length;
+	}
+
+	async add(path: string, notePath: string, error?: Error): Promise<void> {
+		const existing = this.entries.find(e => e.path === path);
+		if (existing) {
+			if (notePath && !existing.notes.includes(notePath)) existing.notes.push(notePath);
+			if (error) existing.lastError = error.message;
+		} else {
+			this.entries.push({ path, notes: notePath ? [notePath] : [], addedAt: Date.now(), attempts: 0, lastError: error?.message });
+		}
+		await this.persist();
+	}
+
+	async markFailed(path: string, error: Error): Promise<void> {
+		const entry = this.entries.find(e => e.path === path);
+		if (!entry) return;
+		entry.attempts++;
+		entry.lastTriedAt = Date.now();
+		entry.lastError = error.message;
+		await this.persist();
+	}
+
+	async remove(path: string): Promise<void> {
+		const idx = this.entries.findIndex(e => e.path === path);
+		if (idx < 0) return;
+		this.entries.splice(idx, 1);
+		await this.persist();
+	}
+}
+
+/** 只推迟离线、限流或服务器错误导致的失败，其余错误重试也不会成功 */
+export function shouldDefer(error: unknown): boolean {
+	return !navigator.onLine || isRetryableError(error);
+}
+
+/** 把笔记中指向该本地图片的所有链接改为图床链接，返回笔记是否有改动 */
+export async function rewriteNote(app: App, uploader: CustomUploader, note: TFile, imagePath: string, url: string, onReplace?: (before: string, after: string) => void): Promise<boolean> {
+	const content = await app.vault.read(note);
+	let updated = content;
+	for (const p of uploader.extractLocalImagePaths(content)) {
+		if (uploader.findLocalImage(p, note)?.path === imagePath) updated = uploader.replaceImageLink(updated, p, url, onReplace);
+	}
+	if (updated === content) return false;
+	await app.vault.modify(note, updated);
+	return true;
+}
+
+/**
+ * 依次补传队列中的图片并更新所有引用它的笔记。仍然离线或服务器仍不可用时停止，等待下一次重试。
+ * 图片文件已不存在的条目直接移除。
+ */
+export async function drainPendingUploads(app: App, pending: PendingUploadQueue, getUploader: (note: TFile | null) => Promise<CustomUploader | undefined>): Promise<number> {
+	let uploaded = 0;
+	for (const entry of pending.all()) {
+		if (!navigator.onLine) break;
+		const file = app.vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile)) { await pending.remove(entry.path); continue; }
+		const notes = entry.notes.map(p => app.vault.getAbstractFileByPath(p)).filter((f): f is TFile => f instanceof TFile);
+		const uploader = await getUploader(notes[0] ?? null);
+		if (!uploader) break;
+		try {
+			const url = await uploader.uploadImageFile(file, notes[0]);
+			for (const note of notes) await rewriteNote(app, uploader, note, entry.path, url);
+			await pending.remove(entry.path);
+			uploaded++;
+		} catch (e) {
+			await pending.markFailed(entry.path, e as Error);
+			if (shouldDefer(e)) break;
+		}
+	}
+	return uploaded;
+}
+
+export function showPendingUploads(app: App, pending: PendingUploadQueue, retryNow: () => Promise<void>): void {
+	class PendingModal extends Modal {
+		onOpen() {
+			const { contentEl } = this;
+			contentEl.empty();
+			contentEl.createEl('h2', { text: '待上传队列' });
+			const entries = pending.all();
+			if (entries.length === 0) { contentEl.createEl('p', { text: '没有等待上传的图片' }); return; }
+			contentEl.createEl('p', { text: `共 ${entries.length} 张图片等待上传，网络恢复后会自动重试` });
+			entries.forEach(e => {
+				const item = contentEl.createDiv({ cls: 'lsky-ledger-item' });
+				item.createDiv({ cls: 'lsky-ledger-url', text: e.path });
+				const meta = [`加入于 ${moment(e.addedAt).format('YYYY-MM-DD HH:mm')}`, `已重试 ${e.attempts} 次`];
+				if (e.notes.length) meta.push(`笔记：${e.notes.join('、')}`);
+				if (e.lastError) meta.push(`最近错误：${e.lastError}`);
+				item.createDiv({ cls: 'lsky-ledger-meta', text: meta.join(' · ') });
+				item.createEl('button', { text: '移出队列' }).addEventListener('click', async () => {
+					await pending.remove(e.path);
+					this.onOpen();
+				});
+			});
+			const row = contentEl.createDiv({ cls: 'modal-button-container' });
+			row.createEl('button', { text: '立即重试', cls: 'mod-cta' }).addEventListener('click', async () => {
+				this.close();
+				await retryNow();
+			});
+		}
+	}
+	new PendingModal(app).open();
+}
@@ -0,0 +1,118 @@
+import {App, Editor, EditorPosition, MarkdownFileInfo, MarkdownView, Modal, moment, Notice, TFile} from 'obsidian';
+import {EditorView} from '@codemirror/view';
+import {formatImageLink, LinkStyle} from '../utils/links';
+import {extractImageReferences} from '../utils/references';
+import {CustomUploader} from './upload';
+import {markOwnFile} from './auto-upload';
+
+export type PasteUploadMode = 'upload' | 'local' | 'ask';
+
+function collectImageFiles(list: FileList | null | undefined): File[] {
+	if (!list) return [];
+	return Array.from(list).filter(f => f.type.startsWith('image/'));
+}
+
+function attachmentName(file: File): string {
+	// 剪贴板中的图片通常都叫 image.png，按 Obsidian 的方式重新命名
+	const ext = file.name.split('.').pop() || file.type.split('/').pop() || 'png';
+	if (!file.name || /^image\.\w+$/i.test(file.name)) return `Pasted image ${moment().format('YYYYMMDDHHmmss')}.${ext}`;
+	return file.name;
+}
+
+function replacePlaceholder(editor: Editor, placeholder: string, text: string): boolean {
+	const idx = editor.getValue().indexOf(placeholder);
+	if (idx < 0) return false;
+	editor.replaceRange(text, editor.offsetToPos(idx), editor.offsetToPos(idx + placeholder.length));
+	return true;
+}
+
+/** 按设置中的链接格式生成图床图片的链接，与上传、下载改写链接时一致 */
+function remoteImageLink(url: string, style: LinkStyle): string {
+	const markdown = `![](${url.replace(/ /g, '%20')})`;
+	const ref = extractImageReferences(markdown)[0];
+	return ref ? formatImageLink(markdown, ref, url, style) : markdown;
+}
+
+async function saveAsAttachment(app: App, binary: ArrayBuffer, name: string, noteFile: TFile | null): Promise<{ file: TFile; text: string }> {
+	const sourcePath = noteFile ? noteFile.path : '';
+	const path = await app.fileManager.getAvailablePathForAttachment(name, sourcePath);
+	markOwnFile(path);
+	const file = await app.vault.createBinary(path, binary);
+	return { file, text: '!' + app.fileManager.generateMarkdownLink(file, sourcePath) };
+}
+
+async function askPasteAction(app: App, count: number): Promise<'upload' | 'local' | null> {
+	return await new Promise((resolve) => {
+		class AskModal extends Modal {
+			private resolved = false;
+			constructor() { super(app); }
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: '插入图片' });
+				contentEl.createEl('p', { text: `共 ${count} 张图片，是否上传到图床？` });
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				const upload = row.createEl('button', { text: '上传到图床', cls: 'mod-cta' });
+				upload.addEventListener('click', () => this.finish('upload'));
+				const local = row.createEl('button', { text: '保存到本地' });
+				local.addEventListener('click', () => this.finish('local'));
+			}
+			onClose() { if (!this.resolved) resolve(null); }
+			private finish(choice: 'upload' | 'local') { this.resolved = true; resolve(choice); this.close(); }
+		}
+		new AskModal().open();
+	});
+}
+
+/** 拖放时图片应插入到鼠标松开的位置，而不是当前光标处 */
+function dropPosition(evt: DragEvent, editor: Editor): EditorPosition | null {
+	const view = evt.target instanceof HTMLElement ? EditorView.findFromDOM(evt.target) : null;
+	const offset = view?.posAtCoords({ x: evt.clientX, y: evt.clientY });
+	return offset === null || offset === undefined ? null : editor.offsetToPos(offset);
+}
+
+async function insertImages(app: App, files: File[], editor: Editor, noteFile: TFile | null, mode: 'upload' | 'local', getUploader: (noteFile: TFile | null) => Promise<CustomUploader | undefined>, at: EditorPosition | null, linkStyle: LinkStyle): Promise<void> {
+	const stamp = Date.now();
+	const items = files.map((file, i) => ({ file, name: attachmentName(file), placeholder: `![上传中 ${stamp}-${i}…]()` }));
+	const placeholders = items.map(i => i.placeholder).join('\n');
+	if (at) editor.replaceRange(placeholders, at);
+	else editor.replaceSelection(placeholders);
+	const uploader = mode === 'upload' ? await getUploader(noteFile) : undefined;
+	for (const item of items) {
+		const binary = await item.file.arrayBuffer();
+		let text: string;
+		if (uploader) {
+			try {
+				const url = await uploader.uploadBinaryForNote(binary, item.name, noteFile ?? undefined);
+				text = remoteImageLink(url, linkStyle);
+			} catch (e) {
+				const saved = await saveAsAttachment(app, binary, item.name, noteFile);
+				text = saved.text;
+				const deferred = await uploader.deferUpload(saved.file, noteFile, e as Error);
+				new Notice(`上传失败，已保存到本地${deferred ? '并加入待上传队列' : ''}：${item.name} - ${(e as Error).message}`);
+			}
+		} else {
+			text = (await saveAsAttachment(app, binary, item.name, noteFile)).text;
+		}
+		if (!replacePlaceholder(editor, item.placeholder, text)) new Notice(`未找到占位链接，图片未插入：${item.name}`);
+	}
+}
+
+/**
+ * 处理编辑器中的粘贴 / 拖放事件。必须同步调用 preventDefault，因此只在确认含有图片时接管事件，
+ * 其余情况交由 Obsidian 默认处理。
+ */
+export function handleEditorImageEvent(app: App, evt: ClipboardEvent | DragEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo, mode: PasteUploadMode, getUploader: (noteFile: TFile | null) => Promise<CustomUploader | undefined>, linkStyle: LinkStyle): void {
+	if (evt.defaultPrevented || mode === 'local') return;
+	const transfer = 'clipboardData' in evt ? evt.clipboardData : evt.dataTransfer;
+	const files = collectImageFiles(transfer?.files);
+	if (files.length === 0) return;
+	evt.preventDefault();
+	const noteFile = info.file ?? app.workspace.getActiveFile();
+	const at = 'clipboardData' in evt ? null : dropPosition(evt, editor);
+	(async () => {
+		// 已经阻止了默认处理，直接关闭询问窗口时保存到本地，图片不会丢失
+		const choice = mode === 'ask' ? (await askPasteAction(app, files.length)) ?? 'local' : 'upload';
+		await insertImages(app, files, editor, noteFile, choice, getUploader, at, linkStyle);
+	})().catch(e => new Notice('插入图片失败：' + (e as Error).message));
+}
@@ -0,0 +1,185 @@
+import {App, FuzzySuggestModal, moment, normalizePath, Notice, requestUrl, TFile} from 'obsidian';
+import {LskyImageItem} from '../api/lsky';
+import {extractFileImageReferences, getReferenceFiles} from '../utils/references';
+import {hostOf, matchesImageHost, normalizeImagePath} from '../utils/url';
+import {CustomUploader} from './upload';
+import {markOwnFile} from './auto-upload';
+import {JournalRecorder, RunJournal} from './journal';
+
+export interface QuarantineEntry {
+	key: string;
+	url: string;
+	thumbnailUrl?: string;
+	pathname?: string;
+	name: string;
+	/** 备份文件在库中的路径，未设置备份目录时为空 */
+	backupPath?: string;
+	quarantinedAt: number;
+	/** 已从图床删除的时间，未删除时为空 */
+	deletedAt?: number;
+	/** 图片所在的图床配置 */
+	profileId?: string;
+}
+
+export interface QuarantineOptions {
+	/** 隔离多少天后仍未被引用才真正删除 */
+	quarantineDays: number;
+	/** 隔离时下载备份的目录，留空则只记录不备份 */
+	quarantineBackupFolder: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 隔离区记录，与 UploadLedger 一样直接修改插件 state 中的数组。
+ */
+export class QuarantineList {
+	private entries: QuarantineEntry[];
+	private persist: () => Promise<void>;
+
+	constructor(entries: QuarantineEntry[], persist: () => Promise<void>) {
+		this.entries = entries;
+		this.persist = persist;
+	}
+
+	all(): QuarantineEntry[] {
+		return this.entries.slice();
+	}
+
+	/** 某个配置下尚未从图床删除的条目 */
+	pending(profileId: string): QuarantineEntry[] {
+		return this.entries.filter(e => !e.deletedAt && e.profileId === profileId);
+	}
+
+	has(key: string, profileId: string): boolean {
+		return this.entries.some(e => e.key === key && !e.deletedAt && e.profileId === profileId);
+	}
+
+	isDue(entry: QuarantineEntry, days: number, now = Date.now()): boolean {
+		return !entry.deletedAt && now - entry.quarantinedAt >= Math.max(0, days) * DAY;
+	}
+
+	async add(entries: QuarantineEntry[]): Promise<void> {
+		this.entries.push(...entries);
+		await this.persist();
+	}
+
+	async markDeleted(keys: string[], profileId: string, at = Date.now()): Promise<void> {
+		this.entries.forEach(e => { if (e.profileId === profileId && keys.includes(e.key)) e.deletedAt = at; });
+		await this.persist();
+	}
+
+	async remove(keys: string[], profileId: string): Promise<void> {
+		for (let i = this.entries.length - 1; i >= 0; i--) {
+			const e = this.entries[i];
+			if (e.profileId === profileId && keys.includes(e.key)) this.entries.splice(i, 1);
+		}
+		await this.persist();
+	}
+}
+
+async function ensureFolder(app: App, path: string) {
+	if (!app.vault.getAbstractFileByPath(path)) await app.vault.createFolder(path);
+}
+
+export async function backupImage(app: App, img: LskyImageItem, folder: string): Promise<string> {
+	const res = await requestUrl({ url: img.links.url, method: 'GET' });
+	const base = (img.pathname || img.links.url).split('/').pop() || img.name || 'image';
+	const path = normalizePath(`${folder}/${img.key}-${decodeURIComponent(base)}`);
+	await ensureFolder(app, normalizePath(folder));
+	const existing = app.vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) await app.vault.modifyBinary(existing, res.arrayBuffer);
+	else {
+		markOwnFile(path);
+		await app.vault.createBinary(path, res.arrayBuffer);
+	}
+	return path;
+}
+
+export function quarantineEntry(img: LskyImageItem, profileId: string, backupPath?: string): QuarantineEntry {
+	return {
+		key: img.key,
+		url: img.links.url,
+		thumbnailUrl: img.links.thumbnail_url,
+		pathname: img.pathname,
+		name: img.name || img.links.url,
+		backupPath,
+		quarantinedAt: Date.now(),
+		profileId
+	};
+}
+
+export async function removeBackup(app: App, entry: QuarantineEntry): Promise<void> {
+	if (!entry.backupPath) return;
+	const file = app.vault.getAbstractFileByPath(entry.backupPath);
+	if (file instanceof TFile) await app.vault.delete(file);
+}
+
+/** 链接是否指向该图片：原图、缩略图、CDN 路径前缀不同或带查询参数的链接都算 */
+function refersTo(entry: QuarantineEntry, hosts: string[], target: string): boolean {
+	if (!matchesImageHost(target, hosts)) return false;
+	const path = normalizeImagePath(target);
+	if (!path) return false;
+	if ([entry.url, entry.thumbnailUrl].some(u => !!u && normalizeImagePath(u) === path)) return true;
+	return !!entry.pathname && path.endsWith('/' + entry.pathname.replace(/^\/+/, ''));
+}
+
+async function replaceUrlInVault(app: App, uploader: CustomUploader, entry: QuarantineEntry, hosts: string[], newUrl: string, recorder: JournalRecorder): Promise<number> {
+	const allHosts = hosts.slice();
+	[entry.url, entry.thumbnailUrl].forEach(u => { const h = u ? hostOf(u) : null; if (h) allHosts.push(h); });
+	let changed = 0;
+	for (const file of getReferenceFiles(app)) {
+		const content = await app.vault.read(file);
+		const targets = new Set(extractFileImageReferences(file, content).map(ref => ref.target).filter(t => refersTo(entry, allHosts, t)));
+		let updated = content;
+		targets.forEach(t => { updated = uploader.replaceFileImageLink(file, updated, t, newUrl, recorder.substitution(file.path)); });
+		if (updated === content) continue;
+		await app.vault.modify(file, updated);
+		changed++;
+	}
+	return changed;
+}
+
+async function restoreEntry(app: App, getUploader: (profileId?: string) => Promise<CustomUploader | undefined>, quarantine: QuarantineList, entry: QuarantineEntry, hosts: string[], journal?: RunJournal): Promise<void> {
+	const profileId = entry.profileId || '';
+	if (!entry.deletedAt) {
+		// 还没删除，移出隔离区即可，链接无需改动
+		await quarantine.remove([entry.key], profileId);
+		await removeBackup(app, entry);
+		new Notice(`已移出隔离区：${entry.name}`);
+		return;
+	}
+	const file = entry.backupPath ? app.vault.getAbstractFileByPath(entry.backupPath) : null;
+	if (!(file instanceof TFile)) { new Notice(`找不到备份文件，无法恢复：${entry.name}`); return; }
+	const uploader = await getUploader(entry.profileId);
+	if (!uploader) return;
+	const binary = await app.vault.readBinary(file);
+	const url = await uploader.uploadBinaryForNote(binary, file.name.replace(`${entry.key}-`, ''), undefined, file.path);
+	const recorder = new JournalRecorder(journal, 'restore', entry.name);
+	recorder.uploaded(uploader.uploadedImages);
+	const changed = await replaceUrlInVault(app, uploader, entry, hosts, url, recorder);
+	await recorder.save();
+	await quarantine.remove([entry.key], profileId);
+	await removeBackup(app, entry);
+	new Notice(`已恢复 ${entry.name}，更新了 ${changed} 篇笔记中的链接`);
+}
+
+export function chooseQuarantineEntry(app: App, quarantine: QuarantineList, getUploader: (profileId?: string) => Promise<CustomUploader | undefined>, hosts: string[], journal?: RunJournal): void {
+	const entries = quarantine.all().sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+	if (entries.length === 0) { new Notice('隔离区为空'); return; }
+	class RestoreModal extends FuzzySuggestModal<QuarantineEntry> {
+		constructor() {
+			super(app);
+			this.setPlaceholder('选择要恢复的图片');
+		}
+		getItems(): QuarantineEntry[] { return entries; }
+		getItemText(entry: QuarantineEntry): string {
+			const state = entry.deletedAt ? `已删除 ${moment(entry.deletedAt).format('YYYY-MM-DD')}` : `隔离于 ${moment(entry.quarantinedAt).format('YYYY-MM-DD')}`;
+			return `${entry.name}（${state}）`;
+		}
+		onChooseItem(entry: QuarantineEntry): void {
+			restoreEntry(app, getUploader, quarantine, entry, hosts, journal).catch(e => new Notice('恢复失败：' + (e as Error).message));
+		}
+	}
+	new RestoreModal().open();
+}
@@ -0,0 +1,137 @@
+import {App, Notice, TFile} from 'obsidian';
+import {ProgressModal} from '../ui/progress';
+import {summarizeTransfers, TransferOptions, TransferQueue, TransferSummary} from '../utils/queue';
+import {matchesDomain, matchesImageHost} from '../utils/url';
+import {extractFileImageReferences, getReferenceFiles, isRemoteTarget} from '../utils/references';
+import {diffLines, NoteChange, noteKey, PlanItem, PreviewOptions, ReviewPlan, reviewPlan} from '../ui/review';
+import {downloadToBinary, fileNameFor} from './download';
+import {CustomUploader} from './upload';
+import {JournalRecorder, RunJournal} from './journal';
+
+export interface RehostOptions extends TransferOptions, PreviewOptions {
+	/** 与下载共用的域名限制 */
+	downloadAllowDomains: string[];
+	downloadDenyDomains: string[];
+}
+
+interface RehostNote {
+	file: TFile;
+	content: string;
+	urls: string[];
+}
+
+/** 不在任何图床配置域名下的远程图片 */
+function extractForeignImageUrls(file: TFile, content: string, hosts: string[], options: RehostOptions): string[] {
+	const set = new Set<string>();
+	extractFileImageReferences(file, content).forEach(ref => {
+		const url = ref.target;
+		if (!isRemoteTarget(url) || matchesImageHost(url, hosts)) return;
+		if (options.downloadAllowDomains.length && !matchesDomain(url, options.downloadAllowDomains)) return;
+		if (!matchesDomain(url, options.downloadDenyDomains)) set.add(url);
+	});
+	return Array.from(set);
+}
+
+async function planRehost(notes: RehostNote[], getUploader: (note: TFile) => Promise<CustomUploader | undefined>, title: string): Promise<ReviewPlan | null> {
+	const items = new Map<string, PlanItem>();
+	const changes: NoteChange[] = [];
+	for (const { file, content, urls } of notes) {
+		const uploader = await getUploader(file);
+		if (!uploader) return null;
+		let after = content;
+		urls.forEach(url => {
+			if (!items.has(url)) items.set(url, { key: url, action: 'upload', label: url });
+			after = uploader.replaceFileImageLink(file, after, url, `https://图床/${fileNameFor(url, '')}`);
+		});
+		const lines = diffLines(content, after);
+		if (lines.length) changes.push({ path: file.path, lines });
+	}
+	return { title, items: Array.from(items.values()), notes: changes };
+}
+
+/**
+ * 把笔记中外部网站的图片直接转存到图床并改写链接，不在库中保留本地副本。
+ * 同一次运行中相同链接、相同上传目标只转存一次。
+ */
+async function rehostNotes(app: App, files: TFile[], hosts: string[], options: RehostOptions, getUploader: (note: TFile) => Promise<CustomUploader | undefined>, journal: RunJournal | undefined, title: string): Promise<void> {
+	if (!navigator.onLine) { new Notice('当前处于离线状态，无法转存图片'); return; }
+	let notes: RehostNote[] = [];
+	for (const file of files) {
+		const content = await app.vault.cachedRead(file);
+		const urls = extractForeignImageUrls(file, content, hosts, options);
+		if (urls.length) notes.push({ file, content, urls });
+	}
+	if (notes.length === 0) { new Notice('未发现需转存的外部图片'); return; }
+	// 预览时未勾选的笔记整篇跳过，未勾选的图片不转存
+	if (options.previewBeforeRun) {
+		const plan = await planRehost(notes, getUploader, `${title}预览`);
+		if (!plan) return;
+		const selected = await reviewPlan(app, plan);
+		if (!selected) return;
+		notes = notes
+			.filter(n => selected.has(noteKey(n.file.path)))
+			.map(n => ({ ...n, urls: n.urls.filter(u => selected.has(u)) }))
+			.filter(n => n.urls.length);
+		if (notes.length === 0) return;
+	}
+
+	const queue = new TransferQueue(options);
+	const progress = new ProgressModal(app, title, () => queue.cancel());
+	progress.open();
+	progress.setTotal(notes.reduce((n, note) => n + note.urls.length, 0));
+	const recorder = new JournalRecorder(journal, 'rehost', files.length === 1 ? files[0].path : '所有笔记');
+	const uploaders = new Set<CustomUploader>();
+	const rehosted = new Map<string, string>();
+	const summary: TransferSummary = { success: [], failed: [], skipped: [] };
+	let changedNotes = 0;
+	for (const note of notes) {
+		const file = note.file;
+		if (queue.isCancelled) break;
+		const uploader = await getUploader(file);
+		if (!uploader) break;
+		uploaders.add(uploader);
+		// 重新读取并只处理预览后仍保留的链接
+		const content = await app.vault.read(file);
+		const keep = new Set(note.urls);
+		const urls = extractForeignImageUrls(file, content, hosts, options).filter(u => keep.has(u));
+		const label = (url: string) => files.length === 1 ? url : `${file.path}: ${url}`;
+		const results = await queue.run(urls, async (url) => {
+			const key = `${uploader.targetKey}|${url}`;
+			const existing = rehosted.get(key);
+			if (existing) return existing;
+			const { binary, contentType } = await downloadToBinary(url);
+			const newUrl = await uploader.uploadBinaryForNote(binary, fileNameFor(url, contentType), file);
+			rehosted.set(key, newUrl);
+			return newUrl;
+		}, (url, i, status, detail) => {
+			progress.setItemStatus(`${file.path}|${i}`, label(url), status, detail);
+			if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment();
+		});
+		// 下载和上传期间笔记可能被编辑，重新读取后再替换，避免覆盖用户的修改
+		const latest = await app.vault.read(file);
+		let updated = latest;
+		results.forEach(r => { if (r.status === 'success' && r.value) updated = uploader.replaceFileImageLink(file, updated, r.item, r.value, recorder.substitution(file.path)); });
+		if (updated !== latest) {
+			await app.vault.modify(file, updated);
+			changedNotes++;
+		}
+		const part = summarizeTransfers(results, label);
+		summary.success.push(...part.success);
+		summary.failed.push(...part.failed);
+		summary.skipped.push(...part.skipped);
+	}
+	uploaders.forEach(u => recorder.uploaded(u.uploadedImages));
+	await recorder.save();
+	progress.finish(summary);
+	new Notice(`转存${queue.isCancelled ? '已取消' : '完成'}：更新 ${changedNotes} 篇笔记，转存 ${summary.success.length} 张图片`);
+}
+
+export async function rehostImagesForCurrentNote(app: App, hosts: string[], options: RehostOptions, getUploader: (note: TFile) => Promise<CustomUploader | undefined>, journal?: RunJournal): Promise<void> {
+	const file = app.workspace.getActiveFile();
+	if (!file) { new Notice('没有活动的笔记'); return; }
+	await rehostNotes(app, [file], hosts, options, getUploader, journal, '转存当前笔记的外部图片');
+}
+
+export async function rehostImagesForAllNotes(app: App, hosts: string[], options: RehostOptions, getUploader: (note: TFile) => Promise<CustomUploader | undefined>, journal?: RunJournal): Promise<void> {
+	await rehostNotes(app, getReferenceFiles(app), hosts, options, getUploader, journal, '转存所有笔记的外部图片');
+}
@@ -1,16 +1,70 @@
 import {App, Notice, TFile} from 'obsidian';
-import {LskyClient} from '../api/lsky';
+import {LskyClient, LskyImageItem, LskyUploadTarget} from '../api/lsky';
 import {ProgressModal} from '../ui/progress';
+import {hashBinary, recordFromImage, UploadLedger} from './ledger';
+import {CompressOptions, formatBytes, processImage} from './compress';
+import {PendingUploadQueue, shouldDefer} from './offline-queue';
+import {JournalRecorder, RunJournal} from './journal';
+import {cleanupLocalFiles, LOCAL_FILE_ACTION_TEXT, LocalFileOptions} from './local-files';
+import {DEFAULT_TRANSFER_OPTIONS, summarizeTransfers, TransferOptions, TransferQueue} from '../utils/queue';
+import {extractImageReferences, isLocalTarget, replaceCanvasImageTarget, replaceImageReferences} from '../utils/references';
+import {formatImageLink, LinkOptions} from '../utils/links';
+import {diffLines, NoteChange, noteKey, PlanItem, PreviewOptions, reviewPlan} from '../ui/review';
+
+export interface UploadOptions extends CompressOptions, TransferOptions, LinkOptions, PreviewOptions, LocalFileOptions {
+	/** 上传前计算内容哈希，已上传过的相同内容直接复用链接 */
+	dedupeUploads: boolean;
+	/** 本地记录未命中时，再比对图床 /images 返回的 sha1 */
+	dedupeCheckServer: boolean;
+}
+
+const DEFAULT_UPLOAD_OPTIONS: UploadOptions = {
+	...DEFAULT_TRANSFER_OPTIONS,
+	linkStyle: 'keep',
+	previewBeforeRun: false,
+	localFileAction: 'keep',
+	localArchiveFolder: 'lsky-archive',
+	dedupeUploads: true,
+	dedupeCheckServer: false,
+	compressImages: false,
+	compressFormat: 'original',
+	compressQuality: 80,
+	compressMaxWidth: 0,
+	compressMaxHeight: 0
+};
 
 export class CustomUploader {
 	private app: App;
 	private client: LskyClient;
-	private retryCount = 0;
-	private readonly maxRetries = 2;
+	private ledger?: UploadLedger;
+	private options: UploadOptions;
+	private target: LskyUploadTarget;
+	private pending?: PendingUploadQueue;
+	private journal?: RunJournal;
+	/** 本上传器实际上传到图床的图片，复用已有链接的不算，用于撤销 */
+	readonly uploadedImages: { key: string; url: string; profileId: string }[] = [];
+	private remoteBySha1?: Promise<Map<string, LskyImageItem>>;
+	private reusedCount = 0;
+	private sizeBefore = 0;
+	private sizeAfter = 0;
 
-	constructor(app: App, client: LskyClient) {
+	constructor(app: App, client: LskyClient, ledger?: UploadLedger, options: UploadOptions = DEFAULT_UPLOAD_OPTIONS, target: LskyUploadTarget = {}, pending?: PendingUploadQueue, journal?: RunJournal) {
 		this.app = app;
 		this.client = client;
+		this.ledger = ledger;
+		this.options = options;
+		this.target = target;
+		this.pending = pending;
+		this.journal = journal;
+	}
+
+	/** 配置与上传目标相同的上传器得到的链接可以互相复用 */
+	get targetKey(): string {
+		return `${this.client.profileId}|${this.targetId}`;
+	}
+
+	private get targetId(): string {
+		return JSON.stringify(this.target);
 	}
 
 	generateTimestampFilename(originalName: string, noteFile?: TFile): string {
@@ -20,31 +74,23 @@ export class CustomUploader {
 		return `${baseName}-${timestamp}.${ext}`;
 	}
 
-	replaceImageLink(content: string, oldPath: string, newUrl: string): string {
-		const escapedPath = oldPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-		content = content.replace(new RegExp(`!\\[.*?\\]\\(${escapedPath}\\)`, 'g'), `![](${newUrl})`);
-		content = content.replace(new RegExp(`<img[^>]+src="${escapedPath}"`, 'g'), `<img src="${newUrl}"`);
-		content = content.replace(new RegExp(`!\\[\\[${escapedPath}\\]\\]`, 'g'), `![](${newUrl})`);
-		return content;
+	replaceImageLink(content: string, oldPath: string, newUrl: string, onReplace?: (before: string, after: string) => void): string {
+		const refs = extractImageReferences(content).filter(r => r.target === oldPath);
+		return replaceImageReferences(content, refs, ref => formatImageLink(content, ref, newUrl, this.options.linkStyle), onReplace);
+	}
+
+	/** 按文件类型替换链接，Canvas 走 JSON 节点 */
+	replaceFileImageLink(file: TFile, content: string, oldPath: string, newUrl: string, onReplace?: (before: string, after: string) => void): string {
+		return file.extension === 'canvas' ? replaceCanvasImageTarget(content, oldPath, newUrl, onReplace) : this.replaceImageLink(content, oldPath, newUrl, onReplace);
 	}
 
     isLocalPath(path: string): boolean {
-        if (!path) return false;
-        const isHttp = /^https?:\/\//i.test(path);
-        const isProtocolRelative = /^\/\//.test(path);
-        const isData = /^data:/.test(path);
-        return !isHttp && !isProtocolRelative && !isData;
+        return isLocalTarget(path);
     }
 
 	extractLocalImagePaths(content: string): string[] {
 		const paths = new Set<string>();
-		const markdownRegex = /!\[.*?\]\(([^)]+)\)/g;
-		const htmlRegex = /<img[^>]+src="([^">]+)"/g;
-		const wikiRegex = /!\[\[([^\]]+)\]\]/g;
-		let m: RegExpExecArray | null;
-		while ((m = markdownRegex.exec(content)) !== null) { const p = m[1].trim(); if (this.isLocalPath(p)) paths.add(p); }
-		while ((m = htmlRegex.exec(content)) !== null) { const p = m[1].trim(); if (this.isLocalPath(p)) paths.add(p); }
-		while ((m = wikiRegex.exec(content)) !== null) { const p = m[1].trim(); if (this.isLocalPath(p)) paths.add(p); }
+		extractImageReferences(content).forEach(ref => { const p = ref.target.trim(); if (this.isLocalPath(p)) paths.add(p); });
 		return Array.from(paths);
 	}
 
@@ -100,7 +146,7 @@ export class CustomUploader {
 		return map[(extension || '').toLowerCase()] || 'application/octet-stream';
 	}
 
-	async uploadLocalImage(imagePath: string, noteFile: TFile): Promise<string> {
+	findLocalImage(imagePath: string, noteFile: TFile): TFile | null {
 		const decoded = (() => { try { return decodeURIComponent(imagePath); } catch { return imagePath; } })();
 		const absolutePath = this.resolveImagePath(decoded, noteFile);
 		let file = this.app.vault.getAbstractFileByPath(absolutePath);
@@ -115,40 +161,154 @@ export class CustomUploader {
 				if (guess) file = guess;
 			}
 		}
-		if (!file || !(file instanceof TFile)) throw new Error(`找不到图片文件: ${absolutePath}`);
+		return file instanceof TFile ? file : null;
+	}
+
+	async uploadLocalImage(imagePath: string, noteFile: TFile): Promise<string> {
+		const file = this.findLocalImage(imagePath, noteFile);
+		if (!file) throw new Error(`找不到图片文件: ${this.resolveImagePath(imagePath, noteFile)}`);
+		return this.uploadImageFile(file, noteFile);
+	}
+
+	async uploadImageFile(file: TFile, noteFile?: TFile, dedupe = true): Promise<string> {
 		const binary = await this.app.vault.readBinary(file);
-		const safeName = this.generateTimestampFilename(file.name.replace(/[^\w\-.]+/g, '_'), noteFile);
-		const url = await this.client.uploadBinary(binary, safeName, this.getImageMimeType(file.extension));
-		return url;
+		return this.uploadBinaryForNote(binary, file.name, noteFile, file.path, dedupe);
+	}
+
+	/** 离线或服务器不可用时把图片加入待上传队列，网络恢复后自动补传；返回是否已加入 */
+	async deferUpload(file: TFile, noteFile: TFile | null, error?: Error): Promise<boolean> {
+		if (!this.pending || (error && !shouldDefer(error))) return false;
+		await this.pending.add(file.path, noteFile ? noteFile.path : '', error);
+		return true;
+	}
+
+	/**
+	 * 预览用：每个能找到的本地图片一项（key 为库内路径），链接先改写为占位地址以得到笔记中变化的行。
+	 */
+	planNoteUpload(note: TFile, content: string, paths: string[]): { items: PlanItem[]; change?: NoteChange } {
+		const items = new Map<string, PlanItem>();
+		let after = content;
+		for (const p of paths) {
+			const file = this.findLocalImage(p, note);
+			if (!file) continue;
+			if (!items.has(file.path)) items.set(file.path, { key: file.path, action: 'upload', label: file.path, detail: formatBytes(file.stat.size) });
+			after = this.replaceImageLink(after, p, `https://图床/${file.name}`);
+		}
+		const lines = diffLines(content, after);
+		return { items: Array.from(items.values()), change: lines.length ? { path: note.path, lines } : undefined };
+	}
+
+	// 图床列表只在每个上传器实例中拉取一次，批量上传时共用
+	private findRemoteBySha1(hash: string): Promise<LskyImageItem | undefined> {
+		if (!this.remoteBySha1) {
+			this.remoteBySha1 = this.client.listAllImages().then(items => {
+				const map = new Map<string, LskyImageItem>();
+				items.forEach(img => { if (img.sha1) map.set(img.sha1.toLowerCase(), img); });
+				return map;
+			});
+		}
+		return this.remoteBySha1.then(map => map.get(hash));
+	}
+
+	private async findRemoteDuplicate(uploadHash: string): Promise<LskyImageItem | undefined> {
+		try {
+			return await this.findRemoteBySha1(uploadHash);
+		} catch {
+			// 拉取图床列表失败时不影响正常上传
+			return undefined;
+		}
+	}
+
+	/**
+	 * 上传记录中的 hash 是来源文件的哈希；比对图床时用实际上传内容（压缩后）的哈希。
+	 * dedupe 为 false 时总是重新上传，例如已有链接失效时。
+	 */
+	async uploadBinaryForNote(binary: ArrayBuffer, originalName: string, noteFile?: TFile, sourcePath = '', dedupe = true): Promise<string> {
+		const notePath = noteFile ? noteFile.path : '';
+		const hash = (this.ledger || this.options.dedupeUploads) ? await hashBinary(binary) : '';
+		if (dedupe && this.options.dedupeUploads) {
+			const record = this.ledger?.findByHash(hash, this.client.profileId, this.targetId);
+			if (record) { this.reusedCount++; return record.url; }
+		}
+		const ext = originalName.split('.').pop() || '';
+		const processed = await processImage(binary, originalName, this.getImageMimeType(ext), this.options);
+		if (dedupe && this.options.dedupeUploads && this.options.dedupeCheckServer) {
+			const uploadHash = processed.binary === binary ? hash : await hashBinary(processed.binary);
+			const existing = await this.findRemoteDuplicate(uploadHash);
+			if (existing) {
+				if (this.ledger) await this.ledger.add(recordFromImage(existing, sourcePath, hash, notePath, this.client.profileId, this.targetId));
+				this.reusedCount++;
+				return existing.links.url;
+			}
+		}
+		const safeName = this.generateTimestampFilename(processed.name.replace(/[^\w\-.]+/g, '_'), noteFile);
+		const image = await this.client.uploadBinary(processed.binary, safeName, processed.mimeType, this.target);
+		this.sizeBefore += processed.originalSize;
+		this.sizeAfter += processed.size;
+		this.uploadedImages.push({ key: image.key, url: image.links.url, profileId: this.client.profileId });
+		if (this.ledger) await this.ledger.add(recordFromImage(image, sourcePath, hash, notePath, this.client.profileId, this.targetId));
+		return image.links.url;
+	}
+
+	private sizeSummary(): string {
+		if (!this.options.compressImages || this.sizeBefore === 0) return '';
+		return `，体积 ${formatBytes(this.sizeBefore)} → ${formatBytes(this.sizeAfter)}`;
 	}
 
 	async uploadAllLocalImages(): Promise<void> {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) { new Notice('没有活动的笔记'); return; }
 		const content = await this.app.vault.read(activeFile);
-		const localPaths = this.extractLocalImagePaths(content);
+		let localPaths = this.extractLocalImagePaths(content);
 		if (localPaths.length === 0) { new Notice('当前笔记中没有本地图片'); return; }
-        new Notice(`找到 ${localPaths.length} 张本地图片，开始上传...`);
-        let success = 0; let updated = content;
-        const progress = new ProgressModal(this.app, '上传本地图片到图床');
-        progress.open();
-        progress.setTotal(localPaths.length);
-        for (const p of localPaths) {
-			try {
-				const url = await this.uploadLocalImage(p, activeFile);
-				updated = this.replaceImageLink(updated, p, url);
-				success++;
-				new Notice(`上传成功 (${success}/${localPaths.length}): ${p.split('/').pop()}`);
-                progress.increment(p.split('/').pop() || '');
-			} catch (e) {
-				new Notice(`上传失败: ${p} - ${(e as Error).message}`);
-                progress.increment('失败');
+		let rewrite = true;
+		if (this.options.previewBeforeRun) {
+			const { items, change } = this.planNoteUpload(activeFile, content, localPaths);
+			const selected = await reviewPlan(this.app, { title: '上传预览', items, notes: change ? [change] : [] });
+			if (!selected) return;
+			rewrite = selected.has(noteKey(activeFile.path));
+			localPaths = localPaths.filter(p => { const file = this.findLocalImage(p, activeFile); return !file || selected.has(file.path); });
+			if (localPaths.length === 0) return;
+		}
+		if (this.pending && !navigator.onLine) {
+			let deferred = 0;
+			for (const p of localPaths) {
+				const file = this.findLocalImage(p, activeFile);
+				if (file && await this.deferUpload(file, activeFile)) deferred++;
 			}
+			new Notice(`当前处于离线状态，已将 ${deferred} 张图片加入待上传队列，网络恢复后自动上传`);
+			return;
 		}
-        progress.close();
-		if (success > 0) await this.app.vault.modify(activeFile, updated);
-		new Notice(`图片上传完成，成功 ${success}/${localPaths.length}`);
+		const queue = new TransferQueue(this.options);
+		const progress = new ProgressModal(this.app, '上传本地图片到图床', () => queue.cancel());
+		progress.open();
+		progress.setTotal(localPaths.length);
+		const name = (p: string) => p.split('/').pop() || p;
+		const results = await queue.run(localPaths, p => this.uploadLocalImage(p, activeFile), (p, i, status, detail) => {
+			progress.setItemStatus(String(i), name(p), status, detail);
+			if (status === 'success' || status === 'failed' || status === 'skipped') progress.increment(name(p));
+		});
+		// 链接替换按原顺序在全部完成后进行，避免并发修改同一份内容
+		const recorder = new JournalRecorder(this.journal, 'upload', activeFile.path);
+		recorder.uploaded(this.uploadedImages);
+		let handled = 0;
+		if (rewrite) {
+			let updated = content;
+			const record = recorder.substitution(activeFile.path);
+			results.forEach(r => { if (r.status === 'success' && r.value) updated = this.replaceImageLink(updated, r.item, r.value, record); });
+			if (updated !== content) await this.app.vault.modify(activeFile, updated);
+			const uploadedFiles = results.filter(r => r.status === 'success').map(r => this.findLocalImage(r.item, activeFile)).filter((f): f is TFile => !!f);
+			handled = await cleanupLocalFiles(this.app, uploadedFiles, [activeFile], this.options, recorder);
+		}
+		await recorder.save();
+		progress.finish(summarizeTransfers(results, name));
+		let deferred = 0;
+		for (const r of results) {
+			if (r.status !== 'failed') continue;
+			const file = this.findLocalImage(r.item, activeFile);
+			if (file && await this.deferUpload(file, activeFile, r.error)) deferred++;
+		}
+		const success = results.filter(r => r.status === 'success').length;
+		new Notice(`图片上传${queue.isCancelled ? '已取消' : '完成'}，成功 ${success}/${localPaths.length}${this.reusedCount ? `，其中 ${this.reusedCount} 张复用已上传的图片` : ''}${deferred ? `，${deferred} 张已加入待上传队列` : ''}${handled ? `，已将 ${handled} 张本地图片${LOCAL_FILE_ACTION_TEXT[this.options.localFileAction]}` : ''}${this.sizeSummary()}`);
 	}
 }
-
-
@@ -0,0 +1,204 @@
+import {App, moment, Notice, TAbstractFile, TFile} from 'obsidian';
+import {LskyClient, LskyImageItem} from '../api/lsky';
+import {LskyProfile} from '../api/profiles';
+import {getImageHosts, matchesImageHost, normalizeImagePath} from '../utils/url';
+import {extractFileImageReferences, getReferenceFiles, isRemoteTarget} from '../utils/references';
+
+const REPORT_PATH = 'lsky-usage-report.md';
+
+function isReferenceFile(file: TAbstractFile): file is TFile {
+	return file instanceof TFile && (file.extension === 'md' || file.extension === 'canvas');
+}
+
+/**
+ * 远程图片与引用它的笔记（含 Canvas）之间的索引。第一次使用时全量建立，之后只在文件修改、重命名、删除时更新对应的笔记。
+ */
+export class ImageUsageIndex {
+	private app: App;
+	private urlsByNote = new Map<string, string[]>();
+	private notesByUrl = new Map<string, Set<string>>();
+	// 同一文件的两次读取可能乱序完成，只采用最后一次开始的结果
+	private versions = new Map<string, number>();
+	private building?: Promise<void>;
+	// 索引建立前的文件事件不需要处理
+	private enabled = false;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/** 首次调用时全量建立索引；建立失败时下次调用重新建立 */
+	ready(): Promise<void> {
+		if (!this.building) {
+			this.enabled = true;
+			const building = (async () => {
+				for (const file of getReferenceFiles(this.app)) await this.update(file);
+			})();
+			this.building = building;
+			building.catch(() => {
+				if (this.building !== building) return;
+				this.building = undefined;
+				this.enabled = false;
+			});
+		}
+		return this.building;
+	}
+
+	/** 新建或修改文件时调用；索引尚未建立时忽略，建立时会读取最新内容 */
+	async update(file: TAbstractFile): Promise<void> {
+		if (!this.enabled || !isReferenceFile(file)) return;
+		const version = (this.versions.get(file.path) ?? 0) + 1;
+		this.versions.set(file.path, version);
+		const content = await this.app.vault.cachedRead(file);
+		if (this.versions.get(file.path) !== version) return;
+		const urls = Array.from(new Set(extractFileImageReferences(file, content).map(r => r.target).filter(isRemoteTarget)));
+		this.setNote(file.path, urls);
+	}
+
+	/** 文件夹重命名时，其中笔记的索引一并移到新路径 */
+	rename(file: TAbstractFile, oldPath: string) {
+		if (!this.enabled) return;
+		for (const path of this.pathsUnder(oldPath)) {
+			const urls = this.urlsByNote.get(path) ?? [];
+			const newPath = file.path + path.substring(oldPath.length);
+			this.remove(path);
+			if (newPath.endsWith('.md') || newPath.endsWith('.canvas')) this.setNote(newPath, urls);
+		}
+		if (!this.urlsByNote.has(file.path)) this.update(file);
+	}
+
+	remove(path: string) {
+		if (!this.enabled) return;
+		for (const p of this.pathsUnder(path)) {
+			this.versions.set(p, (this.versions.get(p) ?? 0) + 1);
+			this.setNote(p, []);
+		}
+	}
+
+	/** 所有被引用的远程图片链接 */
+	urls(): string[] {
+		return Array.from(this.notesByUrl.keys());
+	}
+
+	notesFor(url: string): string[] {
+		return Array.from(this.notesByUrl.get(url) ?? []);
+	}
+
+	/** 每篇笔记引用的远程图片 */
+	notes(): { path: string; urls: string[] }[] {
+		return Array.from(this.urlsByNote.entries()).map(([path, urls]) => ({ path, urls }));
+	}
+
+	private pathsUnder(path: string): string[] {
+		return Array.from(this.urlsByNote.keys()).filter(p => p === path || p.startsWith(path + '/'));
+	}
+
+	private setNote(path: string, urls: string[]) {
+		(this.urlsByNote.get(path) ?? []).forEach(url => {
+			const notes = this.notesByUrl.get(url);
+			notes?.delete(path);
+			if (notes?.size === 0) this.notesByUrl.delete(url);
+		});
+		if (urls.length === 0) { this.urlsByNote.delete(path); return; }
+		this.urlsByNote.set(path, urls);
+		urls.forEach(url => {
+			const notes = this.notesByUrl.get(url) ?? new Set<string>();
+			notes.add(path);
+			this.notesByUrl.set(url, notes);
+		});
+	}
+}
+
+/** 索引中属于这些域名的图片链接 */
+export async function collectIndexedUrls(index: ImageUsageIndex, hosts: string[]): Promise<string[]> {
+	if (hosts.length === 0) return [];
+	await index.ready();
+	return index.urls().filter(url => matchesImageHost(url, hosts));
+}
+
+/**
+ * 图床图片 key -> 引用它的笔记。按路径比对，原图、缩略图以及 CDN 路径前缀不同的链接都算引用，与清理时的判断一致。
+ */
+export async function imageUsage(index: ImageUsageIndex, profile: LskyProfile, images: LskyImageItem[]): Promise<Map<string, string[]>> {
+	const notesByPath = new Map<string, Set<string>>();
+	const pathsByBase = new Map<string, string[]>();
+	for (const url of await collectIndexedUrls(index, getImageHosts(profile.serverUrl, profile.imageDomains, images))) {
+		const path = normalizeImagePath(url);
+		if (!path) continue;
+		let notes = notesByPath.get(path);
+		if (!notes) {
+			notes = new Set();
+			notesByPath.set(path, notes);
+			const base = path.split('/').pop() || '';
+			pathsByBase.set(base, [...(pathsByBase.get(base) || []), path]);
+		}
+		index.notesFor(url).forEach(n => notes?.add(n));
+	}
+	const usage = new Map<string, string[]>();
+	images.forEach(img => {
+		const notes = new Set<string>();
+		const add = (path: string | null) => { if (path) notesByPath.get(path)?.forEach(n => notes.add(n)); };
+		add(normalizeImagePath(img.links.url));
+		if (img.links.thumbnail_url) add(normalizeImagePath(img.links.thumbnail_url));
+		if (img.pathname) {
+			const pathname = '/' + img.pathname.replace(/^\/+/, '');
+			(pathsByBase.get(pathname.split('/').pop() || '') || []).filter(p => p.endsWith(pathname)).forEach(add);
+		}
+		usage.set(img.key, Array.from(notes));
+	});
+	return usage;
+}
+
+function noteLink(path: string): string {
+	return `[[${path.replace(/\.md$/, '')}]]`;
+}
+
+/**
+ * 生成使用报告笔记：各图床中未被引用的图片、被多篇笔记引用的图片、引用远程图片最多的笔记。
+ * 报告中的图片只写普通链接，不会被当作引用计入索引。
+ */
+export async function writeUsageReport(app: App, index: ImageUsageIndex, targets: { profile: LskyProfile; client: LskyClient }[]): Promise<void> {
+	await index.ready();
+	const lines = ['# 图片使用报告', '', `生成于 ${moment().format('YYYY-MM-DD HH:mm:ss')}`, ''];
+	const notes = index.notes().filter(n => n.path !== REPORT_PATH);
+	lines.push(`- 引用远程图片的笔记：${notes.length} 篇`, `- 被引用的远程图片：${index.urls().length} 张`, '');
+
+	for (const { profile, client } of targets) {
+		lines.push(`## 未被引用的图片：${profile.name}`, '');
+		try {
+			const images = await client.listAllImages();
+			const usage = await imageUsage(index, profile, images);
+			const orphans = images.filter(img => !usage.get(img.key)?.length);
+			lines.push(`图床共 ${images.length} 张，未被引用 ${orphans.length} 张`, '');
+			orphans.forEach(img => lines.push(`- [${img.origin_name || img.name}](${img.links.url})${img.date ? ` · ${img.date}` : ''}`));
+		} catch (e) {
+			lines.push(`获取图片列表失败：${(e as Error).message}`);
+		}
+		lines.push('');
+	}
+
+	const shared = index.urls()
+		.map(url => ({ url, notes: index.notesFor(url).filter(p => p !== REPORT_PATH) }))
+		.filter(e => e.notes.length > 1)
+		.sort((a, b) => b.notes.length - a.notes.length);
+	lines.push('## 被多篇笔记引用的图片', '');
+	if (shared.length === 0) lines.push('无');
+	shared.slice(0, 50).forEach(e => lines.push(`- [${e.url.split('/').pop() || e.url}](${e.url})：${e.notes.length} 篇，${e.notes.map(noteLink).join('、')}`));
+	lines.push('');
+
+	lines.push('## 远程图片最多的笔记', '');
+	notes.sort((a, b) => b.urls.length - a.urls.length).slice(0, 20).forEach(n => lines.push(`- ${noteLink(n.path)}：${n.urls.length} 张`));
+	lines.push('');
+
+	const content = lines.join('\n');
+	const existing = app.vault.getAbstractFileByPath(REPORT_PATH);
+	let file: TFile;
+	if (existing instanceof TFile) {
+		await app.vault.modify(existing, content);
+		file = existing;
+	} else {
+		file = await app.vault.create(REPORT_PATH, content);
+	}
+	await app.workspace.getLeaf(true).openFile(file);
+	new Notice(`图片使用报告已生成：${REPORT_PATH}`);
+}
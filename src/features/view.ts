@@ -1,26 +1,8 @@
 import {App, Modal, requestUrl} from 'obsidian';
-import {getServerOrigin} from '../api/lsky';
+import {collectIndexedUrls, ImageUsageIndex} from './usage-index';
 
-export async function collectUsedUploadedImages(app: App, serverUrl: string): Promise<string[]> {
-	const origin = getServerOrigin(serverUrl);
-	if (!origin) return [];
-	const files = app.vault.getMarkdownFiles();
-	const set = new Set<string>();
-	for (const f of files) {
-		const content = await app.vault.read(f);
-		const md = content.match(/!\[.*?\]\((https?:\/\/[^\s)]+)\)/g) || [];
-		const html = content.match(/<img[^>]+src="(https?:\/\/[^">]+)"/g) || [];
-		const wiki = content.match(/!\[\[(https?:\/\/[^\]]+)\]\]/g) || [];
-		[...md, ...html, ...wiki].forEach(s => {
-			const url = s.replace(/!\[.*?\]\(|\)|<img[^>]+src="|"|!\[\[|\]\]/g, '');
-			if (url && url.startsWith(origin)) set.add(url);
-		});
-	}
-	return Array.from(set);
-}
-
-export async function showUsedImages(app: App, serverUrl: string): Promise<void> {
-    const urls = await collectUsedUploadedImages(app, serverUrl);
+export async function showUsedImages(app: App, index: ImageUsageIndex, hosts: string[]): Promise<void> {
+    const urls = await collectIndexedUrls(index, hosts);
     class PreviewModal extends Modal {
         private url: string;
         constructor(url: string) { super(app); this.url = url; }
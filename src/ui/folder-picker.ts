@@ -0,0 +1,25 @@
+import {App, FuzzySuggestModal, TFolder} from 'obsidian';
+
+/**
+ * 选择库中的文件夹，取消时返回 null。
+ */
+export async function chooseFolder(app: App, placeholder = '选择文件夹'): Promise<TFolder | null> {
+	const folders = app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+	return await new Promise((resolve) => {
+		class FolderModal extends FuzzySuggestModal<TFolder> {
+			private chosen = false;
+			constructor() {
+				super(app);
+				this.setPlaceholder(placeholder);
+			}
+			getItems(): TFolder[] { return folders; }
+			getItemText(item: TFolder): string { return item.isRoot() ? '/' : item.path; }
+			onChooseItem(item: TFolder): void { this.chosen = true; resolve(item); }
+			onClose() {
+				// onChooseItem 在 onClose 之后触发，延后判断是否已选择
+				setTimeout(() => { if (!this.chosen) resolve(null); }, 0);
+			}
+		}
+		new FolderModal().open();
+	});
+}
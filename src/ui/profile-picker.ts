@@ -0,0 +1,33 @@
+import {App, FuzzySuggestModal} from 'obsidian';
+import {LskyProfile} from '../api/profiles';
+
+interface ProfileChoice {
+	label: string;
+	profiles: LskyProfile[];
+}
+
+/**
+ * 选择要操作的图床配置。只有一个配置时直接返回；allowAll 时额外提供「全部配置」选项。取消时返回 null。
+ */
+export async function chooseProfiles(app: App, profiles: LskyProfile[], allowAll = true): Promise<LskyProfile[] | null> {
+	if (profiles.length <= 1) return profiles;
+	const choices: ProfileChoice[] = profiles.map(p => ({ label: `${p.name}（${p.serverUrl}）`, profiles: [p] }));
+	if (allowAll) choices.unshift({ label: '全部配置', profiles });
+	return await new Promise((resolve) => {
+		class ProfileModal extends FuzzySuggestModal<ProfileChoice> {
+			private chosen = false;
+			constructor() {
+				super(app);
+				this.setPlaceholder('选择图床配置');
+			}
+			getItems(): ProfileChoice[] { return choices; }
+			getItemText(item: ProfileChoice): string { return item.label; }
+			onChooseItem(item: ProfileChoice): void { this.chosen = true; resolve(item.profiles); }
+			onClose() {
+				// onChooseItem 在 onClose 之后触发，延后判断是否已选择
+				setTimeout(() => { if (!this.chosen) resolve(null); }, 0);
+			}
+		}
+		new ProfileModal().open();
+	});
+}
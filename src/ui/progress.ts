@@ -1,25 +1,56 @@
-import {App, Modal} from 'obsidian';
+import {App, Modal, Notice} from 'obsidian';
+import {TransferStatus, TransferSummary} from '../utils/queue';
+
+const STATUS_TEXT: Record<TransferStatus, string> = {
+	pending: '等待',
+	running: '进行中',
+	retrying: '重试中',
+	success: '成功',
+	failed: '失败',
+	skipped: '已跳过'
+};
 
 export class ProgressModal extends Modal {
 	private titleText: string;
+	private onCancel?: () => void;
 	private barEl?: HTMLDivElement;
 	private textEl?: HTMLDivElement;
+	private itemsEl?: HTMLDivElement;
+	private cancelBtn?: HTMLButtonElement;
+	private itemEls = new Map<string, HTMLDivElement>();
 	private current = 0;
 	private total = 0;
+	private isOpen = false;
 
-	constructor(app: App, title: string) {
+	/** 传入 onCancel 时显示取消按钮 */
+	constructor(app: App, title: string, onCancel?: () => void) {
 		super(app);
 		this.titleText = title;
+		this.onCancel = onCancel;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
+		this.isOpen = true;
 		contentEl.empty();
 		contentEl.createEl('h3', { text: this.titleText });
 		const barWrap = contentEl.createDiv({ cls: 'lsky-progress-wrap' });
 		this.barEl = barWrap.createDiv({ cls: 'lsky-progress-bar' });
 		this.textEl = contentEl.createDiv({ cls: 'lsky-progress-text' });
 		this.textEl.setText('0 / 0');
+		this.itemsEl = contentEl.createDiv({ cls: 'lsky-progress-items' });
+		if (this.onCancel) {
+			const row = contentEl.createDiv({ cls: 'modal-button-container' });
+			this.cancelBtn = row.createEl('button', { text: '取消' });
+			this.cancelBtn.addEventListener('click', () => {
+				this.onCancel?.();
+				if (this.cancelBtn) { this.cancelBtn.disabled = true; this.cancelBtn.setText('正在取消…'); }
+			});
+		}
+	}
+
+	onClose() {
+		this.isOpen = false;
 	}
 
 	setTotal(total: number) {
@@ -37,11 +68,43 @@ export class ProgressModal extends Modal {
 		this.setProgress(this.current + 1, undefined, message);
 	}
 
+	/** 更新列表中某一项的状态，key 相同的项目只占一行 */
+	setItemStatus(key: string, label: string, status: TransferStatus, detail?: string) {
+		if (!this.itemsEl) return;
+		let el = this.itemEls.get(key);
+		if (!el) {
+			el = this.itemsEl.createDiv({ cls: 'lsky-progress-item' });
+			this.itemEls.set(key, el);
+		}
+		el.className = `lsky-progress-item is-${status}`;
+		el.setText(`[${STATUS_TEXT[status]}] ${label}${detail ? ` - ${detail}` : ''}`);
+		if (status === 'running') el.scrollIntoView({ block: 'nearest' });
+	}
+
+	/** 显示最终结果并把取消按钮换成关闭；弹窗已被关闭时改用通知 */
+	finish(summary: TransferSummary) {
+		const text = `成功 ${summary.success.length}，失败 ${summary.failed.length}，跳过 ${summary.skipped.length}`;
+		if (!this.isOpen) { new Notice(`${this.titleText}：${text}`); return; }
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h3', { text: this.titleText });
+		contentEl.createEl('p', { text: text });
+		const section = (title: string, items: string[]) => {
+			if (!items.length) return;
+			contentEl.createEl('h4', { text: title });
+			const list = contentEl.createDiv({ cls: 'lsky-progress-items' });
+			items.forEach(i => list.createDiv({ cls: 'lsky-progress-item', text: i }));
+		};
+		section('失败', summary.failed);
+		section('跳过', summary.skipped);
+		section('成功', summary.success);
+		const row = contentEl.createDiv({ cls: 'modal-button-container' });
+		row.createEl('button', { text: '关闭' }).addEventListener('click', () => this.close());
+	}
+
 	private render(message?: string) {
 		const pct = this.total > 0 ? Math.min(100, Math.round((this.current / this.total) * 100)) : 0;
 		if (this.barEl) this.barEl.style.setProperty('--progress-pct', pct + '%');
 		if (this.textEl) this.textEl.setText(`${this.current} / ${this.total}${message ? ` - ${message}` : ''}`);
 	}
 }
-
-
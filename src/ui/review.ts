@@ -0,0 +1,124 @@
+import {App, Modal} from 'obsidian';
+
+export interface PreviewOptions {
+	/** 执行前先列出计划，确认后再上传、下载或删除 */
+	previewBeforeRun: boolean;
+}
+
+export type PlanAction = 'upload' | 'download' | 'delete' | 'quarantine';
+
+export interface PlanItem {
+	key: string;
+	action: PlanAction;
+	label: string;
+	detail?: string;
+}
+
+export interface LineChange {
+	/** 0 起始的行号 */
+	line: number;
+	before: string;
+	after: string;
+}
+
+export interface NoteChange {
+	path: string;
+	lines: LineChange[];
+}
+
+export interface ReviewPlan {
+	title: string;
+	items: PlanItem[];
+	notes: NoteChange[];
+}
+
+const ACTION_TEXT: Record<PlanAction, string> = {
+	upload: '将上传的文件',
+	download: '将下载的图片',
+	delete: '将从图床删除的图片',
+	quarantine: '将移入隔离区的图片'
+};
+
+/** 笔记的 key，与图片项目放在同一个选择集合中 */
+export function noteKey(path: string): string {
+	return 'note:' + path;
+}
+
+/** 改写链接不会增删行，逐行比较即可得到变化的行 */
+export function diffLines(before: string, after: string): LineChange[] {
+	const a = before.split('\n');
+	const b = after.split('\n');
+	const changes: LineChange[] = [];
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		if (a[i] !== b[i]) changes.push({ line: i, before: a[i] ?? '', after: b[i] ?? '' });
+	}
+	return changes;
+}
+
+/**
+ * 显示执行计划，用户可以取消勾选单个图片或笔记。确认后返回仍勾选的 key（图片的 key 与 noteKey(笔记路径)），取消时返回 null。
+ */
+export async function reviewPlan(app: App, plan: ReviewPlan): Promise<Set<string> | null> {
+	const selected = new Set<string>([...plan.items.map(i => i.key), ...plan.notes.map(n => noteKey(n.path))]);
+	return await new Promise((resolve) => {
+		class ReviewModal extends Modal {
+			private resolved = false;
+			onOpen() {
+				const { contentEl } = this;
+				contentEl.empty();
+				contentEl.createEl('h2', { text: plan.title });
+				contentEl.createEl('p', { text: '以下为预览，尚未做任何修改。取消勾选的项目不会执行。' });
+				const actions = Array.from(new Set(plan.items.map(i => i.action)));
+				for (const action of actions) {
+					const items = plan.items.filter(i => i.action === action);
+					this.section(`${ACTION_TEXT[action]}（${items.length}）`, items.map(i => i.key), list => {
+						items.forEach(item => this.checkRow(list, item.key, item.label, item.detail));
+					});
+				}
+				if (plan.notes.length) {
+					this.section(`将修改的笔记（${plan.notes.length}）`, plan.notes.map(n => noteKey(n.path)), list => {
+						plan.notes.forEach(note => {
+							const details = list.createEl('details', { cls: 'lsky-review-note' });
+							const summary = details.createEl('summary');
+							this.checkRow(summary, noteKey(note.path), note.path, `${note.lines.length} 行`);
+							const diff = details.createDiv({ cls: 'lsky-review-diff' });
+							note.lines.forEach(l => {
+								diff.createDiv({ cls: 'lsky-diff-del', text: `${l.line + 1} - ${l.before}` });
+								diff.createDiv({ cls: 'lsky-diff-add', text: `${l.line + 1} + ${l.after}` });
+							});
+						});
+					});
+				}
+				if (plan.items.length === 0 && plan.notes.length === 0) contentEl.createEl('p', { text: '没有需要执行的操作' });
+				const row = contentEl.createDiv({ cls: 'modal-button-container' });
+				row.createEl('button', { text: '执行', cls: 'mod-cta' }).addEventListener('click', () => { this.resolved = true; resolve(selected); this.close(); });
+				row.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+			}
+			onClose() { if (!this.resolved) resolve(null); }
+			shouldCloseOnClickOutside() { return false; }
+
+			private section(title: string, keys: string[], render: (list: HTMLElement) => void) {
+				const header = this.contentEl.createDiv({ cls: 'lsky-review-header' });
+				header.createEl('h3', { text: title });
+				const toggle = header.createEl('button', { text: '全选 / 全不选' });
+				const list = this.contentEl.createDiv({ cls: 'lsky-review-list' });
+				render(list);
+				toggle.addEventListener('click', () => {
+					const check = keys.some(k => !selected.has(k));
+					keys.forEach(k => { if (check) selected.add(k); else selected.delete(k); });
+					list.querySelectorAll<HTMLInputElement>('input[type=checkbox]').forEach(cb => { cb.checked = check; });
+				});
+			}
+
+			private checkRow(parent: HTMLElement, key: string, label: string, detail?: string) {
+				const row = parent.createEl('label', { cls: 'lsky-review-item' });
+				const cb = row.createEl('input', { type: 'checkbox' });
+				cb.checked = selected.has(key);
+				cb.addEventListener('change', () => { if (cb.checked) selected.add(key); else selected.delete(key); });
+				row.createSpan({ text: label });
+				if (detail) row.createSpan({ cls: 'lsky-review-detail', text: detail });
+			}
+		}
+		new ReviewModal(app).open();
+	});
+}
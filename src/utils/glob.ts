@@ -0,0 +1,33 @@
+/**
+ * 把 glob 模式转为正则：** 匹配任意层目录，* 与 ? 不跨越 /。
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	const p = pattern.trim().replace(/^\/+/, '');
+	for (let i = 0; i < p.length; i++) {
+		const c = p[i];
+		if (c === '*' && p[i + 1] === '*') {
+			// **/ 可以匹配零层目录
+			if (p[i + 2] === '/') { source += '(?:.*/)?'; i += 2; }
+			else { source += '.*'; i += 1; }
+		} else if (c === '*') {
+			source += '[^/]*';
+		} else if (c === '?') {
+			source += '[^/]';
+		} else {
+			source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`, 'i');
+}
+
+/** 不含 / 的模式只比对文件名，例如 *.excalidraw.md */
+export function matchesGlob(path: string, pattern: string): boolean {
+	if (!pattern.trim()) return false;
+	const target = pattern.includes('/') ? path : (path.split('/').pop() || path);
+	return globToRegExp(pattern).test(target);
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+	return patterns.some(p => matchesGlob(path, p));
+}
@@ -0,0 +1,89 @@
+import {ImageReference, isRemoteTarget, withTarget} from './references';
+
+/** 从笔记所在目录到目标文件的相对路径，两者都是库内路径 */
+export function relativeLinkPath(notePath: string, filePath: string): string {
+	const from = notePath.split('/').slice(0, -1);
+	const to = filePath.split('/');
+	let common = 0;
+	while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+	return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}
+
+/** Markdown 链接中的空格、括号等需要转义，其余字符（包括中文）保持原样以便阅读 */
+export function encodeLinkPath(path: string): string {
+	return path.replace(/[ %()<>[\]]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0'));
+}
+
+export type LinkStyle = 'keep' | 'markdown' | 'wiki' | 'html';
+
+export interface LinkOptions {
+	/** 改写图片链接时使用的格式，keep 表示保持原有格式 */
+	linkStyle: LinkStyle;
+}
+
+/** 新的链接目标。href 用于 Markdown 与 HTML，wikiPath 是库内完整路径，只有本地文件才有 */
+export interface LinkTarget {
+	href: string;
+	wikiPath?: string;
+}
+
+// 这些属性可以在不同格式之间转换，其他属性（class、style 等）只能保留在 HTML 中
+const PORTABLE_ATTRIBUTES = ['src', 'alt', 'title', 'width', 'height'];
+
+function hasExtraAttributes(tag: string): boolean {
+	const re = /\s([\w:-]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/g;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(tag.replace(/^<img/i, '').replace(/\/?>$/, ''))) !== null) {
+		if (!PORTABLE_ATTRIBUTES.includes(m[1].toLowerCase())) return true;
+	}
+	return false;
+}
+
+function escapeAttribute(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function htmlSize(tag: string, size?: string): { width?: string; height?: string } {
+	if (size) { const [width, height] = size.split('x'); return { width, height }; }
+	const height = tag.match(/\sheight\s*=\s*["']?(\d+)/i);
+	return { height: height ? height[1] : undefined };
+}
+
+/**
+ * 把图片引用改写为指向新目标的链接，尽量保留 alt、标题、`|宽` 尺寸和 HTML 属性。
+ * 远程图片无法使用 wiki 链接，会改用 Markdown；带有 class、style 等属性的 HTML 图片始终保持 HTML。
+ * reference、frontmatter 只替换地址本身。
+ */
+export function formatImageLink(content: string, ref: ImageReference, target: string | LinkTarget, style: LinkStyle = 'keep'): string {
+	const { href, wikiPath } = typeof target === 'string' ? { href: target, wikiPath: undefined } : target;
+	const remote = isRemoteTarget(href);
+	const encoded = remote ? href.replace(/ /g, '%20') : encodeLinkPath(href);
+	if (ref.kind === 'reference' || ref.kind === 'frontmatter' || ref.kind === 'canvas') return withTarget(content, ref, ref.kind === 'frontmatter' ? href : encoded);
+
+	const original = content.substring(ref.start, ref.end);
+	let kind = style === 'keep' ? ref.kind : style;
+	if (kind === 'wiki' && (remote || !wikiPath)) kind = 'markdown';
+	if (ref.kind === 'html' && hasExtraAttributes(original)) kind = 'html';
+
+	if (kind === ref.kind) {
+		if (kind === 'wiki') return withTarget(content, ref, wikiPath as string);
+		return withTarget(content, ref, kind === 'html' ? escapeAttribute(encoded) : encoded);
+	}
+	const alt = ref.alt || '';
+	if (kind === 'markdown') {
+		const size = ref.size ? `|${ref.size}` : '';
+		const title = ref.title ? ` "${ref.title.replace(/"/g, '\\"')}"` : '';
+		return `![${alt}${size}](${encoded}${title})`;
+	}
+	if (kind === 'wiki') {
+		const alias = [alt, ref.size].filter(Boolean).join('|');
+		return `![[${wikiPath}${alias ? '|' + alias : ''}]]`;
+	}
+	const { width, height } = htmlSize(ref.kind === 'html' ? original : '', ref.size);
+	const attrs = [`src="${escapeAttribute(encoded)}"`];
+	if (alt) attrs.push(`alt="${escapeAttribute(alt)}"`);
+	if (ref.title) attrs.push(`title="${escapeAttribute(ref.title)}"`);
+	if (width) attrs.push(`width="${width}"`);
+	if (height) attrs.push(`height="${height}"`);
+	return `<img ${attrs.join(' ')}>`;
+}
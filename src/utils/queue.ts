@@ -0,0 +1,135 @@
+export interface TransferOptions {
+	/** 同时进行的请求数 */
+	transferConcurrency: number;
+	/** 单个项目遇到限流、服务器错误或网络错误时最多重试的次数 */
+	transferMaxRetries: number;
+}
+
+export const DEFAULT_TRANSFER_OPTIONS: TransferOptions = {
+	transferConcurrency: 3,
+	transferMaxRetries: 3
+};
+
+export type TransferStatus = 'pending' | 'running' | 'retrying' | 'success' | 'failed' | 'skipped';
+
+export interface TransferResult<T, R> {
+	item: T;
+	status: 'success' | 'failed' | 'skipped';
+	value?: R;
+	error?: Error;
+	/** 实际发起的次数，跳过的项目为 0 */
+	attempts: number;
+}
+
+export interface TransferSummary {
+	success: string[];
+	failed: string[];
+	skipped: string[];
+}
+
+export type TransferStatusListener<T> = (item: T, index: number, status: TransferStatus, detail?: string) => void;
+
+/** worker 抛出该错误时项目记为跳过而不是失败，例如下载到的内容不是图片 */
+export class SkipTransferError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SkipTransferError';
+	}
+}
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 30000;
+
+/** 429、5xx 与网络错误值得重试，其余错误（如 4xx、文件不存在）直接失败 */
+export function isRetryableError(e: unknown): boolean {
+	const status = (e as { status?: number })?.status;
+	if (typeof status === 'number') return status === 429 || status >= 500;
+	if (e instanceof TypeError) return true; // fetch 在网络错误时抛出 TypeError
+	return /net::|network|timed? ?out|ECONN|ENOTFOUND|EAI_AGAIN/i.test((e as Error)?.message || '');
+}
+
+/** 第 n 次重试前等待的时间：1s、2s、4s……最多 30s，并加上少量随机抖动 */
+export function backoffDelay(attempt: number): number {
+	const delay = Math.min(MAX_DELAY, BASE_DELAY * Math.pow(2, Math.max(0, attempt - 1)));
+	return delay + Math.floor(Math.random() * delay * 0.2);
+}
+
+/**
+ * 执行单个请求，可重试的错误按指数退避重试。isCancelled 返回 true 时不再重试。
+ */
+export async function retryWithBackoff<R>(task: (attempt: number) => Promise<R>, maxRetries: number, isCancelled: () => boolean = () => false, onRetry?: (attempt: number, error: Error) => void): Promise<R> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await task(attempt);
+		} catch (e) {
+			if (attempt > maxRetries || !isRetryableError(e) || isCancelled()) throw e;
+			onRetry?.(attempt, e as Error);
+			await new Promise(r => setTimeout(r, backoffDelay(attempt)));
+			if (isCancelled()) throw e;
+		}
+	}
+}
+
+export function summarizeTransfers<T>(results: TransferResult<T, unknown>[], label: (item: T) => string): TransferSummary {
+	const summary: TransferSummary = { success: [], failed: [], skipped: [] };
+	results.forEach(r => {
+		const text = label(r.item);
+		if (r.status === 'success') summary.success.push(text);
+		else summary[r.status].push(`${text}${r.error ? ` - ${r.error.message}` : ''}`);
+	});
+	return summary;
+}
+
+/**
+ * 上传、下载和删除共用的传输队列：限制同时进行的请求数，失败时按指数退避重试，可中途取消。
+ * 取消后尚未开始的项目记为 skipped，已经开始的请求会执行完。
+ */
+export class TransferQueue {
+	private options: TransferOptions;
+	private cancelled = false;
+
+	constructor(options: TransferOptions = DEFAULT_TRANSFER_OPTIONS) {
+		this.options = options;
+	}
+
+	get isCancelled(): boolean {
+		return this.cancelled;
+	}
+
+	cancel() {
+		this.cancelled = true;
+	}
+
+	async run<T, R>(items: T[], worker: (item: T, index: number) => Promise<R>, onStatus?: TransferStatusListener<T>): Promise<TransferResult<T, R>[]> {
+		const results: TransferResult<T, R>[] = new Array(items.length);
+		const concurrency = Math.max(1, Math.floor(this.options.transferConcurrency) || 1);
+		const maxRetries = Math.max(0, Math.floor(this.options.transferMaxRetries) || 0);
+		let next = 0;
+		const runNext = async (): Promise<void> => {
+			while (next < items.length) {
+				const index = next++;
+				const item = items[index];
+				if (this.cancelled) {
+					results[index] = { item, status: 'skipped', attempts: 0 };
+					onStatus?.(item, index, 'skipped');
+					continue;
+				}
+				let attempts = 0;
+				onStatus?.(item, index, 'running');
+				try {
+					const value = await retryWithBackoff((attempt) => { attempts = attempt; return worker(item, index); }, maxRetries, () => this.cancelled,
+						(attempt, e) => onStatus?.(item, index, 'retrying', `第 ${attempt} 次重试：${e.message}`));
+					results[index] = { item, status: 'success', value, attempts };
+					onStatus?.(item, index, 'success');
+				} catch (e) {
+					// 等待重试时被取消的项目记为跳过，下次可以重新处理
+					const status = e instanceof SkipTransferError || (this.cancelled && isRetryableError(e)) ? 'skipped' : 'failed';
+					results[index] = { item, status, error: e as Error, attempts };
+					onStatus?.(item, index, status, (e as Error).message);
+				}
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => runNext()));
+		return results;
+	}
+}
@@ -0,0 +1,258 @@
+import {App, TFile} from 'obsidian';
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg', 'ico', 'jfif', 'avif'];
+
+export type ImageReferenceKind = 'markdown' | 'wiki' | 'html' | 'reference' | 'frontmatter' | 'canvas';
+
+export interface ImageReference {
+	kind: ImageReferenceKind;
+	/** 链接目标（URL 或库内路径），已去掉尖括号，未做解码 */
+	target: string;
+	/**
+	 * 链接在文本中的范围。markdown / wiki / html 为整个链接；reference（`[ref]: url` 定义）与 frontmatter 只有目标本身。
+	 * canvas 中的引用无法对应到文本位置，为 -1。
+	 */
+	start: number;
+	end: number;
+	/** 目标本身在文本中的范围 */
+	targetStart: number;
+	targetEnd: number;
+	/** 0 起始的行号 */
+	line: number;
+	alt?: string;
+	title?: string;
+	/** Obsidian 的 `|宽` 或 `|宽x高` */
+	size?: string;
+}
+
+export interface FileImageReferences {
+	file: TFile;
+	refs: ImageReference[];
+}
+
+export function isRemoteTarget(target: string): boolean {
+	return /^(https?:)?\/\//i.test(target);
+}
+
+export function isLocalTarget(target: string): boolean {
+	return !!target && !isRemoteTarget(target) && !/^(data|blob|file|app|obsidian):/i.test(target);
+}
+
+export function hasImageExtension(target: string): boolean {
+	const path = target.split(/[?#]/)[0];
+	const ext = (path.split('.').pop() || '').toLowerCase();
+	return path.includes('.') && IMAGE_EXTENSIONS.includes(ext);
+}
+
+function blank(text: string): string {
+	return text.replace(/[^\n]/g, ' ');
+}
+
+/** 把代码块和行内代码替换成等长空白，后续匹配时偏移量保持不变 */
+function maskCode(content: string): string {
+	let fence: string | null = null;
+	const masked = content.split('\n').map(line => {
+		const open = line.match(/^ {0,3}(`{3,}|~{3,})/);
+		if (fence) {
+			const close = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+			if (close && close[1][0] === fence[0] && close[1].length >= fence.length) fence = null;
+			return blank(line);
+		}
+		if (open) { fence = open[1]; return blank(line); }
+		return line;
+	}).join('\n');
+	return masked.replace(/(^|[^`])(`+)(?!`)((?:(?!\n[ \t]*\n)[\s\S])*?[^`])\2(?!`)/g, (m, pre: string) => pre + blank(m.substring(pre.length)));
+}
+
+function frontmatterEnd(content: string): number {
+	const m = content.match(/^---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+	return m ? m[0].length : 0;
+}
+
+/** 拆出 `alt|400` 中的尺寸；Markdown 图片必须有 `|` 才算尺寸，wiki 链接可以只写数字 */
+function splitSize(text: string, requirePipe: boolean): { alt?: string; size?: string } {
+	const m = text.match(/^(.*?)\|?\s*(\d+(?:x\d+)?)\s*$/);
+	if (m && (text.includes('|') || (!requirePipe && m[1] === ''))) return { alt: m[1] || undefined, size: m[2] };
+	return { alt: text || undefined };
+}
+
+function unquote(text: string): string {
+	return text.length >= 2 && /^["'(]/.test(text) ? text.substring(1, text.length - 1) : text;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+	const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+	return m ? (m[1] ?? m[2] ?? m[3]) : undefined;
+}
+
+function extractFrontmatter(content: string, end: number, push: (ref: Omit<ImageReference, 'line'>) => void) {
+	const lineRe = /^[ \t]*(?:[\w-]+[ \t]*:|-)[ \t]+(.+?)[ \t]*$/gm;
+	const body = content.substring(0, end);
+	let m: RegExpExecArray | null;
+	while ((m = lineRe.exec(body)) !== null) {
+		let value = m[1];
+		let offset = m.index + m[0].length - m[1].length - (m[0].length - m[0].trimEnd().length);
+		if (/^["']/.test(value) && value.endsWith(value[0])) { value = value.substring(1, value.length - 1); offset++; }
+		const wiki = value.match(/^!?\[\[([^\]|#]+)/);
+		if (wiki) { offset += value.indexOf(wiki[1]); value = wiki[1]; }
+		if (!hasImageExtension(value)) continue;
+		push({ kind: 'frontmatter', target: value, start: offset, end: offset + value.length, targetStart: offset, targetEnd: offset + value.length });
+	}
+}
+
+/**
+ * 提取 Markdown 文本中的所有图片引用：`![alt](url "title")`、`![alt](<url>)`、`![[file|400]]`、
+ * `<img src=...>`（单双引号均可）、引用式 `![alt][ref]` 的定义以及 frontmatter 中的图片地址。代码块中的内容会被忽略。
+ */
+export function extractImageReferences(content: string): ImageReference[] {
+	const lineStarts = [0];
+	for (let i = 0; i < content.length; i++) if (content[i] === '\n') lineStarts.push(i + 1);
+	const lineOf = (offset: number) => {
+		let lo = 0, hi = lineStarts.length - 1;
+		while (lo < hi) {
+			const mid = (lo + hi + 1) >> 1;
+			if (lineStarts[mid] <= offset) lo = mid; else hi = mid - 1;
+		}
+		return lo;
+	};
+	const refs: ImageReference[] = [];
+	const push = (ref: Omit<ImageReference, 'line'>) => refs.push({ ...ref, line: lineOf(ref.start) });
+
+	const fmEnd = frontmatterEnd(content);
+	if (fmEnd) extractFrontmatter(content, fmEnd, push);
+	const text = blank(content.substring(0, fmEnd)) + maskCode(content.substring(fmEnd));
+
+	let m: RegExpExecArray | null;
+	const mdRe = /!\[([^\]]*)\]\(\s*(<[^>\n]*>|(?:[^\s()]|\([^\s()]*\))+(?: +(?!["'(])(?:[^\s()]|\([^\s()]*\))+)*)(?:\s+("[^"\n]*"|'[^'\n]*'|\([^)\n]*\)))?\s*\)/g;
+	while ((m = mdRe.exec(text)) !== null) {
+		const raw = m[2];
+		const target = raw.startsWith('<') ? raw.substring(1, raw.length - 1) : raw;
+		const targetStart = m.index + m[0].indexOf(raw, m[1].length + 2) + (raw.startsWith('<') ? 1 : 0);
+		push({ kind: 'markdown', target, start: m.index, end: m.index + m[0].length, targetStart, targetEnd: targetStart + target.length, ...splitSize(m[1], true), title: m[3] ? unquote(m[3]) : undefined });
+	}
+
+	const wikiRe = /!\[\[([^\]|#\n]+)(#[^\]|\n]*)?(?:\|([^\]\n]*))?\]\]/g;
+	while ((m = wikiRe.exec(text)) !== null) {
+		const target = m[1].trim();
+		if (!isRemoteTarget(target) && !hasImageExtension(target)) continue;
+		const targetStart = m.index + 3 + m[1].indexOf(target);
+		push({ kind: 'wiki', target, start: m.index, end: m.index + m[0].length, targetStart, targetEnd: targetStart + target.length, ...(m[3] !== undefined ? splitSize(m[3], false) : {}) });
+	}
+
+	const htmlRe = /<img\b[^>]*?\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>/gi;
+	while ((m = htmlRe.exec(text)) !== null) {
+		const target = m[1] ?? m[2] ?? m[3];
+		const srcAt = m[0].search(/\ssrc\s*=/i);
+		const targetStart = m.index + m[0].indexOf(target, srcAt);
+		const tag = content.substring(m.index, m.index + m[0].length);
+		const width = attribute(tag, 'width');
+		push({ kind: 'html', target, start: m.index, end: m.index + m[0].length, targetStart, targetEnd: targetStart + target.length, alt: attribute(tag, 'alt'), title: attribute(tag, 'title'), size: width && /^\d+$/.test(width) ? width : undefined });
+	}
+
+	// 引用式图片：先找出被 ![alt][label] 使用的标签，再定位对应的 [label]: url 定义
+	const labelKey = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+	const usedLabels = new Map<string, string>();
+	const useRe = /!\[([^\]\n]*)\]\[([^\]\n]*)\]/g;
+	while ((m = useRe.exec(text)) !== null) {
+		const key = labelKey(m[2] || m[1]);
+		if (!usedLabels.has(key)) usedLabels.set(key, m[1]);
+	}
+	if (usedLabels.size) {
+		const defRe = /^ {0,3}\[([^\]\n]+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("[^"\n]*"|'[^'\n]*'|\([^)\n]*\)))?[ \t]*$/gm;
+		while ((m = defRe.exec(text)) !== null) {
+			const key = labelKey(m[1]);
+			if (!usedLabels.has(key)) continue;
+			const raw = m[2];
+			const target = raw.startsWith('<') ? raw.substring(1, raw.length - 1) : raw;
+			const targetStart = m.index + m[0].indexOf(raw, m[1].length + 3) + (raw.startsWith('<') ? 1 : 0);
+			push({ kind: 'reference', target, start: targetStart, end: targetStart + target.length, targetStart, targetEnd: targetStart + target.length, alt: usedLabels.get(key) || undefined, title: m[3] ? unquote(m[3]) : undefined });
+		}
+	}
+
+	return refs.sort((a, b) => a.start - b.start);
+}
+
+export interface CanvasNode {
+	id?: string;
+	type?: string;
+	file?: string;
+	url?: string;
+	text?: string;
+}
+
+/** Canvas 中的图片：文件节点、链接节点以及文本节点里的 Markdown 图片 */
+export function extractCanvasImageReferences(content: string): ImageReference[] {
+	let nodes: CanvasNode[] = [];
+	try { nodes = JSON.parse(content)?.nodes || []; } catch { return []; }
+	const refs: ImageReference[] = [];
+	const add = (target: string, kind: ImageReferenceKind, extra: Partial<ImageReference> = {}) =>
+		refs.push({ kind, target, start: -1, end: -1, targetStart: -1, targetEnd: -1, line: 0, ...extra });
+	for (const node of nodes) {
+		if (node.type === 'file' && node.file && hasImageExtension(node.file)) add(node.file, 'canvas');
+		else if (node.type === 'link' && node.url && hasImageExtension(node.url)) add(node.url, 'canvas');
+		else if (node.type === 'text' && node.text) {
+			extractImageReferences(node.text).forEach(r => add(r.target, 'canvas', { alt: r.alt, title: r.title, size: r.size }));
+		}
+	}
+	return refs;
+}
+
+/**
+ * 把 Canvas 中指向 from 的图片改为 to：链接节点的 url 与文本节点中的图片链接（只换目标，保留原有格式）。
+ * 没有变化时原样返回，否则返回重新序列化的 JSON。
+ */
+export function replaceCanvasImageTarget(content: string, from: string, to: string, onReplace?: (before: string, after: string, offset?: number, node?: string) => void): string {
+	let data: { nodes?: CanvasNode[] };
+	try { data = JSON.parse(content); } catch { return content; }
+	let changed = false;
+	for (const node of data?.nodes || []) {
+		if (node.type === 'link' && node.url === from) {
+			onReplace?.(from, to, undefined, node.id);
+			node.url = to;
+			changed = true;
+		} else if (node.type === 'text' && node.text) {
+			const text = node.text;
+			const updated = replaceImageReferences(text, extractImageReferences(text).filter(r => r.target === from), ref => withTarget(text, ref, to), onReplace && ((before, after, offset) => onReplace(before, after, offset, node.id)));
+			if (updated !== text) { node.text = updated; changed = true; }
+		}
+	}
+	return changed ? JSON.stringify(data, null, '\t') : content;
+}
+
+export function extractFileImageReferences(file: TFile, content: string): ImageReference[] {
+	return file.extension === 'canvas' ? extractCanvasImageReferences(content) : extractImageReferences(content);
+}
+
+/** 可能引用图片的文件：Markdown 笔记与 Canvas */
+export function getReferenceFiles(app: App): TFile[] {
+	return app.vault.getFiles().filter(f => f.extension === 'md' || f.extension === 'canvas');
+}
+
+export async function collectVaultImageReferences(app: App): Promise<FileImageReferences[]> {
+	const result: FileImageReferences[] = [];
+	for (const file of getReferenceFiles(app)) {
+		const refs = extractFileImageReferences(file, await app.vault.cachedRead(file));
+		if (refs.length) result.push({ file, refs });
+	}
+	return result;
+}
+
+/** 返回只把目标换成 target 后的链接文本，其余部分（alt、属性等）保持原样 */
+export function withTarget(content: string, ref: ImageReference, target: string): string {
+	return content.substring(ref.start, ref.targetStart) + target + content.substring(ref.targetEnd, ref.end);
+}
+
+/**
+ * 从后往前替换引用，replacer 返回 null 表示保留原文。canvas 引用没有文本位置，会被跳过。
+ * onReplace 收到每一处替换前后的文本及其在当时内容中的位置，用于记录撤销日志。
+ */
+export function replaceImageReferences(content: string, refs: ImageReference[], replacer: (ref: ImageReference) => string | null, onReplace?: (before: string, after: string, offset?: number) => void): string {
+	const sorted = refs.filter(r => r.start >= 0).sort((a, b) => b.start - a.start);
+	for (const ref of sorted) {
+		const text = replacer(ref);
+		if (text === null) continue;
+		onReplace?.(content.substring(ref.start, ref.end), text, ref.start);
+		content = content.substring(0, ref.start) + text + content.substring(ref.end);
+	}
+	return content;
+}
@@ -0,0 +1,85 @@
+import {arrayBufferToBase64, base64ToArrayBuffer} from 'obsidian';
+
+const PREFIX = 'enc:v1:';
+
+/**
+ * 每台设备各自保存的凭据：加密后存放在本机 localStorage 中，密钥（AES-GCM）同样只在本机。
+ * data.json 会随库同步，凭据不写入其中，各设备的登录互不影响。
+ */
+export class SecretBox {
+	private storageKey: string;
+	private key?: Promise<CryptoKey>;
+	// 明文 -> 密文，内容不变时重复保存不必重新加密
+	private sealed = new Map<string, string>();
+
+	constructor(storageKey: string) {
+		this.storageKey = storageKey;
+	}
+
+	/** 读取本机保存的值，没有或解不开时返回空字符串 */
+	async load(name: string): Promise<string> {
+		return this.open(window.localStorage.getItem(this.itemKey(name)) || '');
+	}
+
+	/** 保存到本机，空值表示删除 */
+	async store(name: string, value: string): Promise<void> {
+		if (value) window.localStorage.setItem(this.itemKey(name), await this.seal(value));
+		else window.localStorage.removeItem(this.itemKey(name));
+	}
+
+	/** 删除不在 names 中的值，例如已删除配置的凭据 */
+	prune(names: string[]) {
+		const keep = new Set(names.map(n => this.itemKey(n)));
+		const stale: string[] = [];
+		for (let i = 0; i < window.localStorage.length; i++) {
+			const key = window.localStorage.key(i);
+			if (key && key.startsWith(this.itemKey('')) && !keep.has(key)) stale.push(key);
+		}
+		stale.forEach(key => window.localStorage.removeItem(key));
+	}
+
+	private itemKey(name: string): string {
+		return `${this.storageKey}:${name}`;
+	}
+
+	static isSealed(value: string | undefined): boolean {
+		return !!value && value.startsWith(PREFIX);
+	}
+
+	async seal(plain: string): Promise<string> {
+		if (!plain) return '';
+		const cached = this.sealed.get(plain);
+		if (cached) return cached;
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getKey(), new TextEncoder().encode(plain));
+		const value = `${PREFIX}${arrayBufferToBase64(iv.buffer)}:${arrayBufferToBase64(data)}`;
+		this.sealed.set(plain, value);
+		return value;
+	}
+
+	/** 解密失败（密钥不同或数据损坏）返回空字符串；未加密的旧数据原样返回 */
+	async open(value: string | undefined): Promise<string> {
+		if (!value || !SecretBox.isSealed(value)) return value || '';
+		const [iv, data] = value.substring(PREFIX.length).split(':');
+		try {
+			const plain = new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToArrayBuffer(iv) }, await this.getKey(), base64ToArrayBuffer(data)));
+			this.sealed.set(plain, value);
+			return plain;
+		} catch {
+			return '';
+		}
+	}
+
+	private getKey(): Promise<CryptoKey> {
+		if (!this.key) {
+			this.key = (async () => {
+				const stored = window.localStorage.getItem(this.storageKey);
+				if (stored) return crypto.subtle.importKey('raw', base64ToArrayBuffer(stored), 'AES-GCM', false, ['encrypt', 'decrypt']);
+				const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+				window.localStorage.setItem(this.storageKey, arrayBufferToBase64(await crypto.subtle.exportKey('raw', key)));
+				return key;
+			})();
+		}
+		return this.key;
+	}
+}
@@ -0,0 +1,91 @@
+import {getServerOrigin, LskyImageItem} from '../api/lsky';
+
+function parseUrl(url: string): URL | null {
+	try {
+		return new URL(url.startsWith('//') ? 'https:' + url : url);
+	} catch {
+		return null;
+	}
+}
+
+/** 取 host（含端口），统一小写；域名配置既可以写 cdn.example.com 也可以写完整地址 */
+export function hostOf(urlOrDomain: string): string | null {
+	const value = urlOrDomain.trim();
+	if (!value) return null;
+	const u = parseUrl(/^(https?:)?\/\//i.test(value) ? value : `https://${value}`);
+	return u ? u.host.toLowerCase() : null;
+}
+
+/**
+ * 图床图片可能出现的所有域名：API 所在域名、设置中的额外域名（CDN 等），以及图床返回链接中的域名。
+ */
+export function getImageHosts(serverUrl: string, extraDomains: string[] = [], images: LskyImageItem[] = []): string[] {
+	const hosts = new Set<string>();
+	const origin = getServerOrigin(serverUrl);
+	const apiHost = origin ? hostOf(origin) : null;
+	if (apiHost) hosts.add(apiHost);
+	extraDomains.forEach(d => { const h = hostOf(d); if (h) hosts.add(h); });
+	images.forEach(img => {
+		[img.links.url, img.links.thumbnail_url].forEach(u => { const h = u ? hostOf(u) : null; if (h) hosts.add(h); });
+	});
+	return Array.from(hosts);
+}
+
+export function matchesImageHost(url: string, hosts: string[]): boolean {
+	if (!/^(https?:)?\/\//i.test(url)) return false;
+	const h = hostOf(url);
+	return !!h && hosts.includes(h);
+}
+
+/** 去掉协议、域名、查询参数和锚点，只保留解码后的路径，用于判断两个链接是否指向同一张图片 */
+export function normalizeImagePath(url: string): string | null {
+	const u = parseUrl(url);
+	if (!u) return null;
+	let path = u.pathname;
+	try { path = decodeURIComponent(path); } catch { /* empty */ }
+	return path.replace(/\/{2,}/g, '/');
+}
+
+/**
+ * 笔记中引用到的图片路径集合。比对时同时考虑原图、缩略图以及 CDN 路径前缀不同的情况（按 pathname 后缀匹配）。
+ */
+export class UsedImageMatcher {
+	private paths = new Set<string>();
+	private byBasename = new Map<string, string[]>();
+
+	constructor(urls: string[]) {
+		urls.forEach(url => {
+			const path = normalizeImagePath(url);
+			if (!path || this.paths.has(path)) return;
+			this.paths.add(path);
+			const base = path.split('/').pop() || '';
+			const list = this.byBasename.get(base) || [];
+			list.push(path);
+			this.byBasename.set(base, list);
+		});
+	}
+
+	isUsed(img: LskyImageItem): boolean {
+		for (const u of [img.links.url, img.links.thumbnail_url]) {
+			const path = u ? normalizeImagePath(u) : null;
+			if (path && this.paths.has(path)) return true;
+		}
+		if (!img.pathname) return false;
+		const pathname = '/' + img.pathname.replace(/^\/+/, '');
+		const candidates = this.byBasename.get(pathname.split('/').pop() || '') || [];
+		return candidates.some(p => p.endsWith(pathname));
+	}
+}
+
+/** 域名列表匹配，列表中的域名同时匹配其子域名；可写 example.com、*.example.com 或完整地址 */
+export function matchesDomain(url: string, domains: string[]): boolean {
+	const u = parseUrl(url);
+	if (!u) return false;
+	const host = u.hostname.toLowerCase();
+	return domains.some(d => {
+		const h = hostOf(d.trim().replace(/^\*\./, ''));
+		if (!h) return false;
+		const name = h.replace(/:\d+$/, '');
+		return host === name || host.endsWith('.' + name);
+	});
+}